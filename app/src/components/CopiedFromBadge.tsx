@@ -0,0 +1,22 @@
+import Link from 'next/link';
+import { GitForkIcon } from 'lucide-react';
+import type { Address } from 'viem';
+
+import { formatAddress } from '@/lib/format';
+
+interface CopiedFromBadgeProps {
+  source: Address;
+}
+
+export default function CopiedFromBadge({ source }: CopiedFromBadgeProps) {
+  return (
+    <Link
+      href={`/vault/${source}`}
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-700 text-xs text-gray-300 hover:text-white"
+      title="This vault copies another strategy"
+    >
+      <GitForkIcon className="w-3 h-3" />
+      Copied from {formatAddress(source)}
+    </Link>
+  );
+}
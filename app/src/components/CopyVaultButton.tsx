@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { useAccount, useContractWrite, usePublicClient } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { CopyIcon } from 'lucide-react';
+import type { Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { CONTRACT_ADDRESSES, VAULT_FACTORY_ABI } from '@/lib/contracts';
+import { getErrorMessage } from '@/lib/errors';
+import { findDeployedVault } from '@/lib/vaults';
+
+interface CopyVaultButtonProps {
+  vault: Address;
+  owner: Address;
+}
+
+/**
+ * One-click copyVault: clones the strategy's tokens and config into a new vault owned by the caller,
+ * then opens the copy so it can be funded
+ */
+export default function CopyVaultButton({ vault, owner }: CopyVaultButtonProps) {
+  const router = useRouter();
+  const { address: account, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const [isCopying, setIsCopying] = useState(false);
+
+  const { writeAsync: copyVault } = useContractWrite({
+    address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+    abi: VAULT_FACTORY_ABI,
+    functionName: 'copyVault',
+  });
+
+  const isOwn = !!account && account.toLowerCase() === owner.toLowerCase();
+
+  const handleCopy = async () => {
+    try {
+      setIsCopying(true);
+      const { hash } = await copyVault({ args: [vault] });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('Copy transaction reverted');
+
+      toast.success('Strategy copied to a new vault');
+
+      const copy = findDeployedVault(receipt);
+      router.push(copy ? `/vault/${copy}?setup=fund` : '/portfolio');
+    } catch (error) {
+      console.error('Copy failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to copy vault'));
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      disabled={!isConnected || isOwn || isCopying}
+      className="btn-outline inline-flex items-center gap-1 px-3 py-1 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      title={!isConnected ? 'Connect your wallet to copy' : isOwn ? "Can't copy your own vault" : 'Copy this strategy'}
+    >
+      {isCopying ? <LoadingSpinner size="sm" /> : <CopyIcon className="w-4 h-4" />}
+      Copy
+    </button>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { useContractWrite, usePublicClient } from 'wagmi';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Dialog } from '@headlessui/react';
+import { CopyIcon, XIcon } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { formatUnits, zeroAddress, type Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { CONTRACT_ADDRESSES, VAULT_FACTORY_ABI, type TokenInfo, type VaultConfig } from '@/lib/contracts';
+import { formatAddress, formatBps, formatDuration, isValidAddress, parseTokenAmount } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+import { findDeployedVault } from '@/lib/vaults';
+
+const copySchema = z.object({
+  intervalSeconds: z.number().min(1, 'Interval must be at least 1 second'),
+  maxSlippageBps: z.number().min(0, 'Slippage cannot be negative').max(10000, 'Slippage cannot exceed 100%'),
+  perCycleQuoteCap: z.string().min(1, 'Cap is required'),
+  feeBps: z.number().min(0, 'Fee cannot be negative').max(10000, 'Fee cannot exceed 100%'),
+  keeper: z.string().refine((value) => value === '' || isValidAddress(value), 'Invalid address'),
+});
+
+type CopyForm = z.infer<typeof copySchema>;
+
+interface CopyVaultDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: Address;
+  config: VaultConfig;
+  baseSymbol: string;
+  quoteToken: TokenInfo;
+}
+
+/**
+ * Review a vault's parameters before copying it. Deploys through copyVaultWithOverrides,
+ * so edited copies still emit VaultCopied and keep their lineage
+ */
+export default function CopyVaultDialog({
+  isOpen,
+  onClose,
+  source,
+  config,
+  baseSymbol,
+  quoteToken,
+}: CopyVaultDialogProps) {
+  const router = useRouter();
+  const publicClient = usePublicClient();
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CopyForm>({
+    resolver: zodResolver(copySchema),
+    // The source keeper is not carried over unless the copier chooses it
+    defaultValues: {
+      intervalSeconds: Number(config.intervalSeconds),
+      maxSlippageBps: Number(config.maxSlippageBps),
+      perCycleQuoteCap: formatUnits(config.perCycleQuoteCap, quoteToken.decimals),
+      feeBps: Number(config.feeBps),
+      keeper: '',
+    },
+  });
+
+  const { writeAsync: copyVault } = useContractWrite({
+    address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+    abi: VAULT_FACTORY_ABI,
+    functionName: 'copyVaultWithOverrides',
+  });
+
+  const handleClose = () => {
+    if (isDeploying) return;
+    setError(undefined);
+    onClose();
+  };
+
+  const onSubmit = async (data: CopyForm) => {
+    try {
+      setIsDeploying(true);
+      setError(undefined);
+
+      const { hash } = await copyVault({
+        args: [
+          source,
+          BigInt(data.intervalSeconds),
+          BigInt(data.maxSlippageBps),
+          parseTokenAmount(data.perCycleQuoteCap, quoteToken.decimals),
+          BigInt(data.feeBps),
+          (data.keeper || zeroAddress) as Address,
+        ],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('Copy transaction reverted');
+
+      toast.success('Vault copied successfully!');
+      onClose();
+
+      const vault = findDeployedVault(receipt);
+      router.push(vault ? `/vault/${vault}?setup=fund` : '/portfolio');
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setError(getErrorMessage(err, 'Failed to copy vault'));
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const sourceKeeper = config.keeper === zeroAddress ? 'Permissionless' : formatAddress(config.keeper);
+
+  return (
+    <Dialog open={isOpen} onClose={handleClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="card w-full max-w-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <Dialog.Title className="text-xl font-semibold">
+                Copy {quoteToken.symbol} → {baseSymbol}
+              </Dialog.Title>
+              <p className="text-sm text-gray-400 mt-1">
+                Source {formatAddress(source)} · every {formatDuration(Number(config.intervalSeconds))} ·{' '}
+                {formatBps(config.maxSlippageBps)} slippage · keeper {sourceKeeper}
+              </p>
+            </div>
+            <button onClick={handleClose} className="text-gray-400 hover:text-white p-1">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Interval (seconds)</label>
+                <input
+                  {...register('intervalSeconds', { valueAsNumber: true })}
+                  type="number"
+                  min="1"
+                  className="input w-full"
+                />
+                {errors.intervalSeconds && (
+                  <p className="text-red-400 text-sm mt-1">{errors.intervalSeconds.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Per-Cycle Cap ({quoteToken.symbol})</label>
+                <input {...register('perCycleQuoteCap')} type="text" className="input w-full" />
+                {errors.perCycleQuoteCap && (
+                  <p className="text-red-400 text-sm mt-1">{errors.perCycleQuoteCap.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Max Slippage (basis points)</label>
+                <input
+                  {...register('maxSlippageBps', { valueAsNumber: true })}
+                  type="number"
+                  min="0"
+                  max="10000"
+                  className="input w-full"
+                />
+                {errors.maxSlippageBps && (
+                  <p className="text-red-400 text-sm mt-1">{errors.maxSlippageBps.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Protocol Fee (basis points)</label>
+                <input
+                  {...register('feeBps', { valueAsNumber: true })}
+                  type="number"
+                  min="0"
+                  max="10000"
+                  className="input w-full"
+                />
+                {errors.feeBps && <p className="text-red-400 text-sm mt-1">{errors.feeBps.message}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Keeper Address</label>
+              <input
+                {...register('keeper')}
+                type="text"
+                className="input w-full"
+                placeholder="0x... (leave empty for permissionless execution)"
+              />
+              {errors.keeper && <p className="text-red-400 text-sm mt-1">{errors.keeper.message}</p>}
+            </div>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={isDeploying}
+              className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isDeploying ? (
+                <>
+                  <LoadingSpinner size="sm" />
+                  Deploying...
+                </>
+              ) : (
+                <>
+                  <CopyIcon className="w-4 h-4" />
+                  Deploy Copy
+                </>
+              )}
+            </button>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { useAccount, useContractReads, useContractWrite } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { formatUnits, maxUint256, type Address, type Hash } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import TransactionStatus from '@/components/TransactionStatus';
+import { ERC20_ABI, MICRO_DCA_VAULT_ABI, type TokenInfo } from '@/lib/contracts';
+import { formatTokenAmount, parseTokenAmount } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+
+interface DepositFlowProps {
+  vault: Address;
+  quoteToken: TokenInfo;
+  shareDecimals: number;
+  onDeposited?: () => void;
+}
+
+export default function DepositFlow({ vault, quoteToken, shareDecimals, onDeposited }: DepositFlowProps) {
+  const { address: account } = useAccount();
+  const [amount, setAmount] = useState('');
+  const [unlimited, setUnlimited] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [approveHash, setApproveHash] = useState<Hash>();
+  const [depositHash, setDepositHash] = useState<Hash>();
+
+  const { decimals, symbol } = quoteToken;
+
+  // Wallet balance and current allowance towards the vault
+  const { data: tokenData, refetch: refetchToken } = useContractReads({
+    contracts: [
+      { address: quoteToken.address, abi: ERC20_ABI, functionName: 'balanceOf', args: [account as Address] },
+      { address: quoteToken.address, abi: ERC20_ABI, functionName: 'allowance', args: [account as Address, vault] },
+    ],
+    enabled: !!account,
+    watch: true,
+  });
+
+  const balance = (tokenData?.[0]?.result as bigint) || 0n;
+  const allowance = (tokenData?.[1]?.result as bigint) || 0n;
+
+  const parsedAmount = parseTokenAmount(amount, decimals);
+  const needsApproval = parsedAmount > 0n && allowance < parsedAmount;
+  const insufficientBalance = parsedAmount > balance;
+
+  const { data: previewData } = useContractReads({
+    contracts: [
+      { address: vault, abi: MICRO_DCA_VAULT_ABI, functionName: 'previewDeposit', args: [parsedAmount] },
+    ],
+    enabled: parsedAmount > 0n,
+  });
+  const previewShares = (previewData?.[0]?.result as bigint) || 0n;
+
+  const { writeAsync: approve } = useContractWrite({
+    address: quoteToken.address,
+    abi: ERC20_ABI,
+    functionName: 'approve',
+  });
+
+  const { writeAsync: deposit } = useContractWrite({
+    address: vault,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'deposit',
+  });
+
+  const handleApprove = async () => {
+    try {
+      setIsSubmitting(true);
+      setDepositHash(undefined);
+      const { hash } = await approve({
+        args: [vault, unlimited ? maxUint256 : parsedAmount],
+      });
+      setApproveHash(hash);
+    } catch (error) {
+      console.error('Approve failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to approve'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeposit = async () => {
+    if (!account) return;
+
+    try {
+      setIsSubmitting(true);
+      const { hash } = await deposit({ args: [parsedAmount, account] });
+      setDepositHash(hash);
+    } catch (error) {
+      console.error('Deposit failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to deposit'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-2">
+        <label className="font-medium">Amount ({symbol})</label>
+        <button
+          onClick={() => setAmount(formatUnits(balance, decimals))}
+          className="text-gray-400 hover:text-white"
+        >
+          Balance: {formatTokenAmount(balance, decimals)}
+        </button>
+      </div>
+      <input
+        type="text"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        className="input w-full mb-2"
+        placeholder="0.0"
+      />
+
+      {parsedAmount > 0n && (
+        <p className="text-xs text-gray-400 mb-2">
+          You will receive ~{formatTokenAmount(previewShares, shareDecimals)} shares
+        </p>
+      )}
+      {insufficientBalance && (
+        <p className="text-xs text-red-400 mb-2">Insufficient {symbol} balance</p>
+      )}
+
+      {needsApproval && (
+        <label className="flex items-center gap-2 text-sm mb-4">
+          <input
+            type="checkbox"
+            checked={unlimited}
+            onChange={(e) => setUnlimited(e.target.checked)}
+            className="rounded bg-gray-700 border-gray-600 text-primary-500"
+          />
+          Approve unlimited {symbol} (skip future approvals)
+        </label>
+      )}
+
+      <button
+        onClick={needsApproval ? handleApprove : handleDeposit}
+        disabled={isSubmitting || parsedAmount === 0n || insufficientBalance}
+        className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSubmitting ? (
+          <>
+            <LoadingSpinner size="sm" />
+            Confirm in wallet...
+          </>
+        ) : needsApproval ? (
+          `Approve ${symbol}`
+        ) : (
+          'Deposit'
+        )}
+      </button>
+
+      <div className="space-y-2 mt-4">
+        {approveHash && (
+          <TransactionStatus
+            hash={approveHash}
+            label={`Approve ${symbol}`}
+            onConfirmed={() => refetchToken()}
+          />
+        )}
+        {depositHash && (
+          <TransactionStatus
+            hash={depositHash}
+            label="Deposit"
+            onConfirmed={() => {
+              toast.success('Deposit confirmed');
+              setAmount('');
+              setApproveHash(undefined);
+              refetchToken();
+              onDeposited?.();
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { PlayIcon } from 'lucide-react';
+import { decodeEventLog, type Address, type Hash, type TransactionReceipt } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import TransactionStatus from '@/components/TransactionStatus';
+import { ERC20_ABI, MICRO_DCA_VAULT_ABI, type TokenInfo, type VaultConfig } from '@/lib/contracts';
+import { getErrorMessage } from '@/lib/errors';
+import { cycleQuoteAmount, quoteCycleOut } from '@/lib/quote';
+import { formatTokenAmount } from '@/lib/format';
+
+interface ExecuteCycleButtonProps {
+  vault: Address;
+  config: VaultConfig;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+  onExecuted?: () => void;
+}
+
+interface FillResult {
+  quoteIn: bigint;
+  baseOut: bigint;
+}
+
+/**
+ * Find the vault's Fill event in a confirmed executeCycle receipt
+ */
+function findFill(receipt: TransactionReceipt, vault: Address): FillResult | undefined {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== vault.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: MICRO_DCA_VAULT_ABI, data: log.data, topics: log.topics });
+      if (event.eventName === 'Fill') {
+        return { quoteIn: event.args.quoteIn, baseOut: event.args.baseOut };
+      }
+    } catch {
+      // Not a vault event we know about
+    }
+  }
+  return undefined;
+}
+
+export default function ExecuteCycleButton({
+  vault,
+  config,
+  baseToken,
+  quoteToken,
+  onExecuted,
+}: ExecuteCycleButtonProps) {
+  const { address: account, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [error, setError] = useState<string>();
+  const [txHash, setTxHash] = useState<Hash>();
+  const [fill, setFill] = useState<FillResult>();
+
+  const handleExecute = async () => {
+    if (!account || !walletClient) return;
+
+    try {
+      setIsExecuting(true);
+      setError(undefined);
+      setTxHash(undefined);
+      setFill(undefined);
+
+      const quoteBalance = await publicClient.readContract({
+        address: quoteToken.address,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [vault],
+      });
+      const quoteAmount = cycleQuoteAmount(config.perCycleQuoteCap, quoteBalance);
+      const { minOut } = await quoteCycleOut(
+        publicClient,
+        {
+          baseToken: baseToken.address,
+          quoteToken: quoteToken.address,
+          maxSlippageBps: config.maxSlippageBps,
+        },
+        quoteAmount
+      );
+
+      // Surface reverts before asking the wallet to sign anything
+      const { request } = await publicClient.simulateContract({
+        account,
+        address: vault,
+        abi: MICRO_DCA_VAULT_ABI,
+        functionName: 'executeCycle',
+        args: [quoteAmount, minOut, account],
+      });
+
+      setTxHash(await walletClient.writeContract(request));
+    } catch (err) {
+      console.error('executeCycle failed:', err);
+      const message = getErrorMessage(err, 'Failed to execute cycle');
+      setError(message);
+      toast.error(message);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleConfirmed = (receipt: TransactionReceipt) => {
+    setFill(findFill(receipt, vault));
+    onExecuted?.();
+  };
+
+  if (!isConnected) return null;
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={handleExecute}
+        disabled={isExecuting || !walletClient}
+        className="btn-secondary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isExecuting ? (
+          <>
+            <LoadingSpinner size="sm" />
+            Executing...
+          </>
+        ) : (
+          <>
+            <PlayIcon className="w-4 h-4" />
+            Execute Cycle Now
+          </>
+        )}
+      </button>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {txHash && <TransactionStatus hash={txHash} label="Execute cycle" onConfirmed={handleConfirmed} />}
+
+      {fill && (
+        <p className="text-sm text-green-300">
+          Filled: spent {formatTokenAmount(fill.quoteIn, quoteToken.decimals)} {quoteToken.symbol}, received{' '}
+          {formatTokenAmount(fill.baseOut, baseToken.decimals)} {baseToken.symbol}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useMemo, useState, type MouseEvent } from 'react';
+import { formatUnits } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { cumulativeFills } from '@/lib/analytics';
+import type { FillRecord, TokenInfo } from '@/lib/contracts';
+import { formatDate } from '@/lib/format';
+
+interface FillHistoryChartProps {
+  fills: FillRecord[] | undefined;
+  isLoading: boolean;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+}
+
+interface ChartPoint {
+  ts: number;
+  price: number | null;
+  averageEntryPrice: number | null;
+  quoteSpent: number;
+  baseAcquired: number;
+}
+
+type ChartView = 'price' | 'accumulation';
+
+const RANGES = [
+  { label: '24h', seconds: 24 * 60 * 60 },
+  { label: '7d', seconds: 7 * 24 * 60 * 60 },
+  { label: '30d', seconds: 30 * 24 * 60 * 60 },
+  { label: 'All', seconds: null },
+] as const;
+
+type RangeLabel = (typeof RANGES)[number]['label'];
+
+// SVG coordinate space; the chart scales to its container width
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 56, bottom: 24, left: 56 };
+const Y_TICKS = 4;
+
+const COLORS = {
+  price: '#60a5fa',
+  average: '#facc15',
+  quote: '#4ade80',
+  base: '#c084fc',
+};
+
+function formatAxisValue(value: number): string {
+  if (value === 0) return '0';
+  if (Math.abs(value) >= 1000) {
+    return value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+  }
+  return value.toLocaleString('en-US', { maximumSignificantDigits: 4 });
+}
+
+function formatAxisDate(ts: number, spanSeconds: number): string {
+  const date = new Date(ts * 1000);
+  return spanSeconds <= 2 * 24 * 60 * 60
+    ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Linear scale from [min, max] onto [start, end], padding flat domains so a single value is centred
+ */
+function scale(min: number, max: number, start: number, end: number) {
+  const [lo, hi] = min === max ? [min - 1, max + 1] : [min, max];
+  return (value: number) => start + ((value - lo) / (hi - lo)) * (end - start);
+}
+
+function linePath(points: { x: number; y: number | null }[]): string {
+  let path = '';
+  let drawing = false;
+  for (const { x, y } of points) {
+    if (y === null) {
+      drawing = false;
+      continue;
+    }
+    path += `${drawing ? 'L' : 'M'}${x.toFixed(1)},${y.toFixed(1)}`;
+    drawing = true;
+  }
+  return path;
+}
+
+function paddedExtent(values: number[]): [number, number] {
+  if (values.length === 0) return [0, 1];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = (max - min) * 0.05;
+  return [Math.max(0, min - pad), max + pad];
+}
+
+/**
+ * Plot a vault's fills over time: execution price against the running average entry,
+ * or cumulative quote spent against cumulative base acquired
+ */
+export default function FillHistoryChart({ fills, isLoading, baseToken, quoteToken }: FillHistoryChartProps) {
+  const [range, setRange] = useState<RangeLabel>('All');
+  const [view, setView] = useState<ChartView>('price');
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  // Totals are lifetime values so a narrow range still shows where the vault stands
+  const allPoints = useMemo((): ChartPoint[] => {
+    if (!fills) return [];
+    const toQuote = (amount: bigint) => Number(formatUnits(amount, quoteToken.decimals));
+    return cumulativeFills(fills, baseToken.decimals).map((point) => ({
+      ts: Number(point.ts),
+      price: point.price === null ? null : toQuote(point.price),
+      averageEntryPrice: point.averageEntryPrice === null ? null : toQuote(point.averageEntryPrice),
+      quoteSpent: toQuote(point.costBasis),
+      baseAcquired: Number(formatUnits(point.baseAcquired, baseToken.decimals)),
+    }));
+  }, [fills, baseToken.decimals, quoteToken.decimals]);
+
+  const { points, start, end } = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    const seconds = RANGES.find((option) => option.label === range)?.seconds ?? null;
+    const windowStart = seconds === null ? (allPoints[0]?.ts ?? now) : now - seconds;
+    const visible = allPoints.filter((point) => point.ts >= windowStart);
+    return {
+      points: visible,
+      start: windowStart,
+      end: Math.max(now, visible[visible.length - 1]?.ts ?? now),
+    };
+  }, [allPoints, range]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (allPoints.length === 0) {
+    return <div className="text-center py-8 text-gray-400">The chart appears after the first fill.</div>;
+  }
+
+  const x = scale(start, end, PADDING.left, WIDTH - PADDING.right);
+  const plotBottom = HEIGHT - PADDING.bottom;
+
+  const leftValues =
+    view === 'price'
+      ? points
+          .flatMap((point) => [point.price, point.averageEntryPrice])
+          .filter((value): value is number => value !== null)
+      : points.map((point) => point.quoteSpent);
+  const rightValues = view === 'accumulation' ? points.map((point) => point.baseAcquired) : [];
+
+  const [leftMin, leftMax] = paddedExtent(leftValues);
+  const [rightMin, rightMax] = paddedExtent(rightValues);
+  const yLeft = scale(leftMin, leftMax, plotBottom, PADDING.top);
+  const yRight = scale(rightMin, rightMax, plotBottom, PADDING.top);
+
+  const series =
+    view === 'price'
+      ? [
+          {
+            key: 'average',
+            label: 'Average entry',
+            color: COLORS.average,
+            path: linePath(
+              points.map((p) => ({
+                x: x(p.ts),
+                y: p.averageEntryPrice === null ? null : yLeft(p.averageEntryPrice),
+              }))
+            ),
+          },
+        ]
+      : [
+          {
+            key: 'quote',
+            label: `${quoteToken.symbol} spent`,
+            color: COLORS.quote,
+            path: linePath(points.map((p) => ({ x: x(p.ts), y: yLeft(p.quoteSpent) }))),
+          },
+          {
+            key: 'base',
+            label: `${baseToken.symbol} acquired`,
+            color: COLORS.base,
+            path: linePath(points.map((p) => ({ x: x(p.ts), y: yRight(p.baseAcquired) }))),
+          },
+        ];
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    if (points.length === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const cursorX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const distances = points.map((point) => Math.abs(x(point.ts) - cursorX));
+    const nearest = distances.indexOf(Math.min(...distances));
+    setHovered(nearest);
+  };
+
+  const active = points[hovered ?? points.length - 1];
+  const pairLabel = `${quoteToken.symbol}/${baseToken.symbol}`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex gap-1">
+          {(['price', 'accumulation'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded text-sm ${
+                view === option ? 'bg-primary-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option === 'price' ? 'Price' : 'Accumulation'}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => {
+                setRange(option.label);
+                setHovered(null);
+              }}
+              className={`px-3 py-1 rounded text-sm ${
+                range === option.label ? 'bg-primary-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Values at the hovered fill, or the latest one */}
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm mb-2 min-h-[1.25rem]">
+        {active && (
+          <>
+            <span className="text-gray-400">{formatDate(active.ts)}</span>
+            {view === 'price' ? (
+              <>
+                <span style={{ color: COLORS.price }}>
+                  Fill: {active.price === null ? '—' : formatAxisValue(active.price)} {pairLabel}
+                </span>
+                <span style={{ color: COLORS.average }}>
+                  Avg: {active.averageEntryPrice === null ? '—' : formatAxisValue(active.averageEntryPrice)} {pairLabel}
+                </span>
+              </>
+            ) : (
+              <>
+                <span style={{ color: COLORS.quote }}>
+                  Spent: {formatAxisValue(active.quoteSpent)} {quoteToken.symbol}
+                </span>
+                <span style={{ color: COLORS.base }}>
+                  Acquired: {formatAxisValue(active.baseAcquired)} {baseToken.symbol}
+                </span>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <div className="text-center py-16 text-gray-400">No fills in this range.</div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+        >
+          {/* Grid and axes */}
+          {Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+            const y = PADDING.top + ((plotBottom - PADDING.top) * i) / Y_TICKS;
+            const fraction = 1 - i / Y_TICKS;
+            return (
+              <g key={i}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#374151" strokeWidth={1} />
+                <text x={PADDING.left - 6} y={y + 4} textAnchor="end" fontSize={10} fill="#9ca3af">
+                  {formatAxisValue(leftMin + (leftMax - leftMin) * fraction)}
+                </text>
+                {view === 'accumulation' && (
+                  <text x={WIDTH - PADDING.right + 6} y={y + 4} fontSize={10} fill="#9ca3af">
+                    {formatAxisValue(rightMin + (rightMax - rightMin) * fraction)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          {[start, (start + end) / 2, end].map((ts, i) => (
+            <text
+              key={i}
+              x={x(ts)}
+              y={HEIGHT - 6}
+              textAnchor={i === 0 ? 'start' : i === 2 ? 'end' : 'middle'}
+              fontSize={10}
+              fill="#9ca3af"
+            >
+              {formatAxisDate(ts, end - start)}
+            </text>
+          ))}
+
+          {series.map((line) => (
+            <path key={line.key} d={line.path} fill="none" stroke={line.color} strokeWidth={2} />
+          ))}
+
+          {/* Individual executions */}
+          {view === 'price' &&
+            points.map((point, i) =>
+              point.price === null ? null : (
+                <circle
+                  key={`${point.ts}-${i}`}
+                  cx={x(point.ts)}
+                  cy={yLeft(point.price)}
+                  r={hovered === i ? 4 : 2.5}
+                  fill={COLORS.price}
+                />
+              )
+            )}
+
+          {hovered !== null && active && (
+            <line
+              x1={x(active.ts)}
+              x2={x(active.ts)}
+              y1={PADDING.top}
+              y2={plotBottom}
+              stroke="#6b7280"
+              strokeDasharray="3 3"
+            />
+          )}
+        </svg>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+        {view === 'price' && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: COLORS.price }} />
+            Fill price ({pairLabel})
+          </span>
+        )}
+        {series.map((line) => (
+          <span key={line.key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: line.color }} />
+            {line.label}
+            {view === 'accumulation' && ` (${line.key === 'quote' ? 'left' : 'right'} axis)`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { ExternalLinkIcon } from 'lucide-react';
+import { formatUnits } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { chains } from '@/lib/wagmi';
+import { formatTokenAmount, formatDate, getRelativeTime, formatAddress } from '@/lib/format';
+import type { FillRecord, TokenInfo } from '@/lib/contracts';
+
+interface FillHistoryTableProps {
+  fills: FillRecord[] | undefined;
+  isLoading: boolean;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+}
+
+export default function FillHistoryTable({
+  fills,
+  isLoading,
+  baseToken,
+  quoteToken,
+}: FillHistoryTableProps) {
+  const explorerUrl = chains[0]?.blockExplorers?.default.url;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!fills || fills.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-400">
+        No fills yet. The first cycle will run once the vault is funded.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-gray-700">
+            <th className="py-2 pr-4 font-medium">Time</th>
+            <th className="py-2 pr-4 font-medium text-right">Spent</th>
+            <th className="py-2 pr-4 font-medium text-right">Received</th>
+            <th className="py-2 pr-4 font-medium text-right">Price</th>
+            <th className="py-2 font-medium text-right">Tx</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fills.map((fill) => {
+            // Quote paid per unit of base received
+            const price = fill.baseOut > 0n
+              ? Number(formatUnits(fill.quoteIn, quoteToken.decimals)) /
+                Number(formatUnits(fill.baseOut, baseToken.decimals))
+              : 0;
+
+            return (
+              <tr key={`${fill.transactionHash}-${fill.ts}`} className="border-b border-gray-700/50">
+                <td className="py-2 pr-4">
+                  <div>{getRelativeTime(fill.ts)}</div>
+                  <div className="text-xs text-gray-400">{formatDate(fill.ts)}</div>
+                </td>
+                <td className="py-2 pr-4 text-right">
+                  {formatTokenAmount(fill.quoteIn, quoteToken.decimals)} {quoteToken.symbol}
+                </td>
+                <td className="py-2 pr-4 text-right">
+                  {formatTokenAmount(fill.baseOut, baseToken.decimals)} {baseToken.symbol}
+                </td>
+                <td className="py-2 pr-4 text-right">
+                  {price.toLocaleString('en-US', { maximumFractionDigits: 6 })}
+                </td>
+                <td className="py-2 text-right">
+                  {explorerUrl ? (
+                    <a
+                      href={`${explorerUrl}/tx/${fill.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-primary-400 hover:text-primary-500"
+                    >
+                      {formatAddress(fill.transactionHash)}
+                      <ExternalLinkIcon className="w-3 h-3" />
+                    </a>
+                  ) : (
+                    formatAddress(fill.transactionHash)
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { ReactNode } from 'react';
+import { CheckCircleIcon, CircleIcon, XIcon } from 'lucide-react';
+
+import DepositFlow from '@/components/DepositFlow';
+import { useTokenInfo } from '@/hooks/useTokenInfo';
+import type { TokenInfo, VaultInfo } from '@/lib/contracts';
+import { formatDuration, formatTokenAmount } from '@/lib/format';
+
+interface FundVaultPromptProps {
+  vault: VaultInfo;
+  quoteToken: TokenInfo;
+  onDismiss: () => void;
+}
+
+function Step({ done, title, children }: { done: boolean; title: string; children?: ReactNode }) {
+  return (
+    <li className="flex gap-3">
+      {done ? (
+        <CheckCircleIcon className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" />
+      ) : (
+        <CircleIcon className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+      )}
+      <div className="flex-1">
+        <div className={done ? 'text-gray-400' : 'font-medium'}>{title}</div>
+        {children}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Guided first deposit shown after landing on a freshly created or copied vault
+ */
+export default function FundVaultPrompt({ vault, quoteToken, onDismiss }: FundVaultPromptProps) {
+  // Vault shares are themselves an ERC-20 with their own decimals
+  const { data: shareToken } = useTokenInfo(vault.address);
+  const shareDecimals = shareToken?.decimals ?? quoteToken.decimals;
+
+  const isFunded = vault.totalAssets > 0n;
+  const perCycle = formatTokenAmount(vault.config.perCycleQuoteCap, quoteToken.decimals, 0);
+
+  return (
+    <div className="card mb-8 border border-primary-500/40">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Fund your vault</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Your vault is live. Deposit {quoteToken.symbol} so it can start buying.
+          </p>
+        </div>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white p-1" title="Dismiss">
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <ol className="space-y-4">
+        <Step done title="Vault deployed" />
+        <Step done={isFunded} title={`Deposit ${quoteToken.symbol}`}>
+          {isFunded ? (
+            <p className="text-sm text-gray-400 mt-1">
+              {formatTokenAmount(vault.totalAssets, quoteToken.decimals)} {quoteToken.symbol} deposited
+            </p>
+          ) : (
+            <div className="mt-3 max-w-md">
+              <p className="text-sm text-gray-400 mb-3">
+                Each cycle swaps up to {perCycle} {quoteToken.symbol}, so deposit enough for the cycles you want
+                to run.
+              </p>
+              <DepositFlow vault={vault.address} quoteToken={quoteToken} shareDecimals={shareDecimals} />
+            </div>
+          )}
+        </Step>
+        <Step done={vault.totalFilledQuote > 0n} title="First cycle">
+          <p className="text-sm text-gray-400 mt-1">
+            Cycles run every {formatDuration(Number(vault.config.intervalSeconds))} once funded, by a keeper or
+            from the Status panel.
+          </p>
+        </Step>
+      </ol>
+
+      {isFunded && (
+        <button onClick={onDismiss} className="btn-secondary mt-6">
+          Done
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { useAccount, useContractRead, usePublicClient, useSignTypedData } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { PenLineIcon } from 'lucide-react';
+import { formatUnits, type Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import RelayIntentList from '@/components/RelayIntentList';
+import { useRelayIntents } from '@/hooks/useRelayIntents';
+import { somnia } from '@/lib/wagmi';
+import {
+  CONTRACT_ADDRESSES,
+  RELAYER_ABI,
+  type ExecuteCycleMessage,
+  type TokenInfo,
+  type VaultInfo,
+} from '@/lib/contracts';
+import { quoteCycle } from '@/lib/quote';
+import { EXECUTE_CYCLE_TYPES, getRelayerDomain, submitRelayIntent } from '@/lib/relay';
+import { formatTokenAmount, parseTokenAmount } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+
+const DEADLINE_OPTIONS = [
+  { label: '15 minutes', seconds: 15 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '24 hours', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+];
+
+const DEFAULT_DEADLINE_SECONDS = 60 * 60;
+
+interface GaslessExecutionPanelProps {
+  vault: VaultInfo;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+}
+
+export default function GaslessExecutionPanel({ vault, baseToken, quoteToken }: GaslessExecutionPanelProps) {
+  const { address: account, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const [amount, setAmount] = useState(() =>
+    formatUnits(vault.config.perCycleQuoteCap, quoteToken.decimals)
+  );
+  const [deadlineSeconds, setDeadlineSeconds] = useState(DEFAULT_DEADLINE_SECONDS);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const quoteAmount = parseTokenAmount(amount, quoteToken.decimals);
+  const exceedsCap = quoteAmount > vault.config.perCycleQuoteCap;
+
+  const { data: nonce } = useContractRead({
+    address: CONTRACT_ADDRESSES.RELAYER,
+    abi: RELAYER_ABI,
+    functionName: 'getNonce',
+    args: [account as Address],
+    enabled: !!account,
+    watch: true,
+  });
+
+  const { data: intents, isLoading: intentsLoading, refetch: refetchIntents } = useRelayIntents(account);
+  const vaultIntents = intents?.filter(
+    (intent) => intent.message.vault.toLowerCase() === vault.address.toLowerCase()
+  );
+
+  const handleSign = async () => {
+    if (!account || nonce === undefined || quoteAmount === 0n) return;
+
+    try {
+      setIsSigning(true);
+
+      // Protect the relayed swap with a live router quote and the vault's slippage setting
+      const { minOut } = await quoteCycle(publicClient, vault.address, quoteAmount);
+
+      const { timestamp } = await publicClient.getBlock();
+      const message: ExecuteCycleMessage = {
+        vault: vault.address,
+        quoteAmount,
+        minOut,
+        beneficiary: account,
+        deadline: timestamp + BigInt(deadlineSeconds),
+        nonce,
+      };
+
+      const signature = await signTypedDataAsync({
+        domain: getRelayerDomain(somnia.id, CONTRACT_ADDRESSES.RELAYER),
+        types: EXECUTE_CYCLE_TYPES,
+        primaryType: 'ExecuteCycle',
+        message,
+      });
+
+      // Check the signature against the contract before handing it off
+      const [signer, isValid] = (await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.RELAYER,
+        abi: RELAYER_ABI,
+        functionName: 'verifySignature',
+        args: [message, signature],
+      })) as readonly [Address, boolean];
+
+      if (!isValid || signer.toLowerCase() !== account.toLowerCase()) {
+        toast.error('Signature did not verify against the relayer contract');
+        return;
+      }
+
+      await submitRelayIntent(message, signature);
+      toast.success('Signed cycle sent to the relayer');
+      refetchIntents();
+    } catch (error) {
+      console.error('Gasless signing failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to sign cycle'));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="text-center py-4 text-gray-400">
+        Connect your wallet to sign gasless cycles
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-gray-400 mb-4">
+        Sign an execution request and the relayer will submit it once the vault is due, paying the gas for you.
+      </p>
+
+      <label className="block text-sm font-medium mb-2">Quote Amount ({quoteToken.symbol})</label>
+      <input
+        type="text"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        className="input w-full mb-1"
+        placeholder="0.0"
+      />
+      <p className={`text-xs mb-4 ${exceedsCap ? 'text-red-400' : 'text-gray-400'}`}>
+        Per-cycle cap: {formatTokenAmount(vault.config.perCycleQuoteCap, quoteToken.decimals)} {quoteToken.symbol}
+      </p>
+
+      <label className="block text-sm font-medium mb-2">Valid For</label>
+      <select
+        value={deadlineSeconds}
+        onChange={(e) => setDeadlineSeconds(Number(e.target.value))}
+        className="input w-full mb-4"
+      >
+        {DEADLINE_OPTIONS.map((option) => (
+          <option key={option.seconds} value={option.seconds}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex justify-between text-sm mb-4">
+        <span className="text-gray-400">Relayer nonce:</span>
+        <span>{nonce !== undefined ? nonce.toString() : '-'}</span>
+      </div>
+
+      <button
+        onClick={handleSign}
+        disabled={isSigning || nonce === undefined || quoteAmount === 0n || exceedsCap}
+        className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSigning ? (
+          <>
+            <LoadingSpinner size="sm" />
+            Signing...
+          </>
+        ) : (
+          <>
+            <PenLineIcon className="w-4 h-4" />
+            Sign for Gasless Execution
+          </>
+        )}
+      </button>
+
+      <h3 className="text-sm font-semibold mt-6 mb-2">Your Signed Cycles</h3>
+      <RelayIntentList
+        intents={vaultIntents}
+        isLoading={intentsLoading}
+        baseToken={baseToken}
+        quoteToken={quoteToken}
+        onChange={() => refetchIntents()}
+      />
+    </div>
+  );
+}
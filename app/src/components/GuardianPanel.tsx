@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useContractWrite, usePublicClient } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { ShieldIcon } from 'lucide-react';
+import { zeroAddress, type Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { MICRO_DCA_VAULT_ABI } from '@/lib/contracts';
+import { formatAddress, isValidAddress } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+
+interface GuardianPanelProps {
+  address: Address;
+  guardian: Address;
+}
+
+/**
+ * Assign or remove the guardian, an address that can pause the vault but not
+ * unpause it or change any other setting
+ */
+export default function GuardianPanel({ address, guardian }: GuardianPanelProps) {
+  const publicClient = usePublicClient();
+  const [input, setInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasGuardian = guardian !== zeroAddress;
+  const value = input.trim();
+  const inputError =
+    value === ''
+      ? undefined
+      : !isValidAddress(value)
+        ? 'Invalid address'
+        : value.toLowerCase() === guardian.toLowerCase()
+          ? 'This address is already the guardian'
+          : undefined;
+
+  const { writeAsync: setGuardian } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'setGuardian',
+  });
+
+  const save = async (next: Address) => {
+    try {
+      setIsSaving(true);
+
+      const { hash } = await setGuardian({ args: [next] });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('setGuardian transaction reverted');
+
+      setInput('');
+      toast.success(next === zeroAddress ? 'Guardian removed' : 'Guardian updated');
+    } catch (error) {
+      console.error('setGuardian failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to update guardian'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldIcon className="w-4 h-4 text-gray-400" />
+        <h3 className="font-medium">Guardian</h3>
+      </div>
+      <p className="text-sm text-gray-400">
+        A guardian can pause this vault, for example from a monitoring bot, but cannot resume it or change
+        any other setting.
+      </p>
+      <div className="text-sm">
+        <span className="text-gray-400">Current: </span>
+        {hasGuardian ? formatAddress(guardian) : 'None (only you can pause)'}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="0x..."
+          className="input flex-1"
+        />
+        <button
+          type="button"
+          onClick={() => save(value as Address)}
+          disabled={isSaving || value === '' || !!inputError}
+          className="btn-primary inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving && <LoadingSpinner size="sm" />}
+          {hasGuardian ? 'Replace' : 'Set Guardian'}
+        </button>
+        {hasGuardian && (
+          <button
+            type="button"
+            onClick={() => save(zeroAddress)}
+            disabled={isSaving}
+            className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      {inputError && <p className="text-red-400 text-sm">{inputError}</p>}
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import {
   PlusIcon, 
   FolderIcon, 
   ActivityIcon,
+  TrophyIcon,
+  AlertOctagonIcon,
   GithubIcon,
   TwitterIcon
 } from 'lucide-react';
@@ -21,7 +23,9 @@ export default function Layout({ children }: LayoutProps) {
   const navigation = [
     { name: 'Home', href: '/', icon: HomeIcon },
     { name: 'Create', href: '/create', icon: PlusIcon },
+    { name: 'Leaderboard', href: '/leaderboard', icon: TrophyIcon },
     { name: 'Portfolio', href: '/portfolio', icon: FolderIcon },
+    { name: 'Emergency', href: '/emergency', icon: AlertOctagonIcon },
   ];
 
   return (
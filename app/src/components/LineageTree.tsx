@@ -0,0 +1,86 @@
+import Link from 'next/link';
+import { GitForkIcon } from 'lucide-react';
+import type { Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useLineageTree, type LineageNode } from '@/hooks/useVaultLineage';
+import { formatAddress } from '@/lib/format';
+
+interface LineageTreeProps {
+  vault: Address;
+}
+
+function countDescendants(node: LineageNode): number {
+  return node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+function LineageBranch({ node, current, depth }: { node: LineageNode; current: Address; depth: number }) {
+  const isCurrent = node.vault.toLowerCase() === current.toLowerCase();
+  const descendants = countDescendants(node);
+
+  return (
+    <li>
+      <div
+        className={`flex items-center justify-between gap-2 py-1 text-sm ${depth > 0 ? 'border-l border-gray-700 pl-3' : ''}`}
+      >
+        {isCurrent ? (
+          <span className="font-medium text-primary-400">{formatAddress(node.vault)} (this vault)</span>
+        ) : (
+          <Link href={`/vault/${node.vault}`} className="hover:text-primary-400">
+            {formatAddress(node.vault)}
+          </Link>
+        )}
+        <span className="text-xs text-gray-400 whitespace-nowrap">
+          {node.owner ? `by ${formatAddress(node.owner)}` : ''}
+          {descendants > 0 && ` · ${descendants} ${descendants === 1 ? 'copy' : 'copies'}`}
+        </span>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-3">
+          {node.children.map((child) => (
+            <LineageBranch key={child.vault} node={child} current={current} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Copy tree rooted at the original strategy; descendant counts include copies of copies
+ */
+export default function LineageTree({ vault }: LineageTreeProps) {
+  const { data: lineage, isLoading, isError } = useLineageTree(vault);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  if (isError || !lineage) {
+    return <p className="text-sm text-gray-400">Lineage could not be loaded</p>;
+  }
+
+  if (lineage.root.children.length === 0) {
+    return (
+      <p className="text-sm text-gray-400 flex items-center gap-2">
+        <GitForkIcon className="w-4 h-4" />
+        An original strategy with no copies yet
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <ul>
+        <LineageBranch node={lineage.root} current={vault} depth={0} />
+      </ul>
+      {lineage.truncated && (
+        <p className="text-xs text-gray-400 mt-2">Showing the first copies only; this strategy has more.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useEffect, useState } from 'react';
+import { useContractWrite, usePublicClient } from 'wagmi';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'react-hot-toast';
+import { AlertTriangleIcon, ClockIcon, SettingsIcon } from 'lucide-react';
+import {
+  decodeEventLog,
+  formatUnits,
+  zeroAddress,
+  type Address,
+  type TransactionReceipt,
+} from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { MICRO_DCA_VAULT_ABI, type PendingConfig, type VaultConfig } from '@/lib/contracts';
+import {
+  formatAddress,
+  formatBps,
+  formatDuration,
+  formatTokenAmount,
+  isValidAddress,
+  parseTokenAmount,
+} from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+import {
+  CONFIG_DELAY_SECONDS,
+  CONFIG_LABELS,
+  TIMELOCKED_FIELDS,
+  configWarnings,
+  diffConfig,
+  setConfigArgs,
+  splitConfigChange,
+} from '@/lib/vaultConfig';
+
+const configSchema = z.object({
+  // Zero is accepted on-chain, so it is warned about below rather than rejected
+  intervalSeconds: z.number().int('Interval must be whole seconds').min(0, 'Interval cannot be negative'),
+  maxSlippageBps: z.number().int().min(0, 'Slippage cannot be negative').max(10000, 'Slippage cannot exceed 100%'),
+  perCycleQuoteCap: z.string().min(1, 'Cap is required'),
+  feeBps: z.number().int().min(0, 'Fee cannot be negative').max(10000, 'Fee cannot exceed 100%'),
+  keeper: z.string().refine((value) => value === '' || isValidAddress(value), 'Invalid address'),
+  paused: z.boolean(),
+});
+
+type ConfigForm = z.infer<typeof configSchema>;
+
+interface OwnerConfigPanelProps {
+  address: Address;
+  config: VaultConfig;
+  quoteDecimals: number;
+  quoteSymbol: string;
+  pendingConfig?: PendingConfig;
+}
+
+function toFormValues(config: VaultConfig, quoteDecimals: number): ConfigForm {
+  return {
+    intervalSeconds: Number(config.intervalSeconds),
+    maxSlippageBps: Number(config.maxSlippageBps),
+    perCycleQuoteCap: formatUnits(config.perCycleQuoteCap, quoteDecimals),
+    feeBps: Number(config.feeBps),
+    keeper: config.keeper === zeroAddress ? '' : config.keeper,
+    paused: config.paused,
+  };
+}
+
+/**
+ * The config setConfig would write, or undefined while the form holds invalid input
+ */
+function toProposedConfig(values: ConfigForm, quoteDecimals: number): VaultConfig | undefined {
+  const parsed = configSchema.safeParse(values);
+  if (!parsed.success) return undefined;
+
+  const { data } = parsed;
+  return {
+    intervalSeconds: BigInt(data.intervalSeconds),
+    maxSlippageBps: BigInt(data.maxSlippageBps),
+    perCycleQuoteCap: parseTokenAmount(data.perCycleQuoteCap, quoteDecimals),
+    feeBps: BigInt(data.feeBps),
+    keeper: (data.keeper || zeroAddress) as Address,
+    paused: data.paused,
+  };
+}
+
+/**
+ * The config a confirmed setConfig receipt reports through its ConfigUpdated event, and
+ * the change it queued through ConfigQueued if any
+ */
+function findConfigEvents(receipt: TransactionReceipt, vault: Address) {
+  let updated: VaultConfig | undefined;
+  let queued: PendingConfig | undefined;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== vault.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: MICRO_DCA_VAULT_ABI, data: log.data, topics: log.topics });
+      if (event.eventName === 'ConfigUpdated') updated = event.args;
+      else if (event.eventName === 'ConfigQueued') queued = event.args;
+    } catch {
+      // Not a vault event we know about
+    }
+  }
+  return { updated, queued };
+}
+
+function formatField(field: keyof VaultConfig, config: VaultConfig, quoteDecimals: number, quoteSymbol: string) {
+  switch (field) {
+    case 'intervalSeconds':
+      return `${formatDuration(Number(config.intervalSeconds))} (${config.intervalSeconds}s)`;
+    case 'maxSlippageBps':
+      return formatBps(config.maxSlippageBps);
+    case 'perCycleQuoteCap':
+      return `${formatTokenAmount(config.perCycleQuoteCap, quoteDecimals)} ${quoteSymbol}`;
+    case 'feeBps':
+      return formatBps(config.feeBps);
+    case 'keeper':
+      return config.keeper === zeroAddress ? 'Permissionless' : formatAddress(config.keeper);
+    case 'paused':
+      return config.paused ? 'Yes' : 'No';
+  }
+}
+
+/**
+ * Owner console for setConfig. setConfig overwrites every field at once, so the form starts
+ * from the live config and shows exactly which fields a submission would change and which
+ * of them wait behind the timelock
+ */
+export default function OwnerConfigPanel({
+  address,
+  config,
+  quoteDecimals,
+  quoteSymbol,
+  pendingConfig,
+}: OwnerConfigPanelProps) {
+  const publicClient = usePublicClient();
+  const [isSaving, setIsSaving] = useState(false);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<ConfigForm>({
+    resolver: zodResolver(configSchema),
+    defaultValues: toFormValues(config, quoteDecimals),
+  });
+
+  // Follow on-chain updates unless the owner is mid-edit
+  const configKey = JSON.stringify(config, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+  useEffect(() => {
+    if (!isDirty) reset(toFormValues(config, quoteDecimals));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [configKey, quoteDecimals]);
+
+  const proposed = toProposedConfig(watch(), quoteDecimals);
+  const changes = proposed ? diffConfig(config, proposed) : [];
+  const warnings = proposed ? configWarnings(config, proposed) : [];
+  const isQueued = !!proposed && !!splitConfigChange(config, proposed).queued;
+  const warningKey = warnings.map((warning) => warning.field).join();
+
+  // A different set of warnings needs a fresh acknowledgement
+  useEffect(() => {
+    setAcknowledged(false);
+  }, [warningKey]);
+
+  const { writeAsync: setConfig } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'setConfig',
+  });
+
+  const onSubmit = async (data: ConfigForm) => {
+    const next = toProposedConfig(data, quoteDecimals);
+    if (!next) return;
+
+    try {
+      setIsSaving(true);
+
+      const expected = splitConfigChange(config, next);
+      const { hash } = await setConfig({ args: setConfigArgs(next) });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('setConfig transaction reverted');
+
+      const { updated, queued } = findConfigEvents(receipt, address);
+      if (!updated) throw new Error('setConfig confirmed without a ConfigUpdated event');
+      if (diffConfig(updated, expected.applied).length > 0) {
+        throw new Error('ConfigUpdated reported different values than were submitted');
+      }
+      if (expected.queued) {
+        if (!queued) throw new Error('setConfig confirmed without queueing the time-locked change');
+        if (diffConfig({ ...updated, ...queued }, { ...updated, ...expected.queued }).length > 0) {
+          throw new Error('ConfigQueued reported different values than were submitted');
+        }
+      }
+
+      reset(toFormValues(updated, quoteDecimals));
+      toast.success(
+        queued
+          ? `Configuration updated; fee, slippage and keeper changes apply after ${formatDuration(CONFIG_DELAY_SECONDS)}`
+          : 'Configuration updated'
+      );
+    } catch (error) {
+      console.error('setConfig failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to update configuration'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Interval (seconds)</label>
+          <input
+            {...register('intervalSeconds', { valueAsNumber: true })}
+            type="number"
+            min="0"
+            className="input w-full"
+          />
+          {errors.intervalSeconds && (
+            <p className="text-red-400 text-sm mt-1">{errors.intervalSeconds.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Per-Cycle Cap ({quoteSymbol})</label>
+          <input {...register('perCycleQuoteCap')} type="text" className="input w-full" />
+          {errors.perCycleQuoteCap && (
+            <p className="text-red-400 text-sm mt-1">{errors.perCycleQuoteCap.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Max Slippage (basis points)</label>
+          <input
+            {...register('maxSlippageBps', { valueAsNumber: true })}
+            type="number"
+            min="0"
+            max="10000"
+            className="input w-full"
+          />
+          {errors.maxSlippageBps && (
+            <p className="text-red-400 text-sm mt-1">{errors.maxSlippageBps.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Protocol Fee (basis points)</label>
+          <input
+            {...register('feeBps', { valueAsNumber: true })}
+            type="number"
+            min="0"
+            max="10000"
+            className="input w-full"
+          />
+          {errors.feeBps && (
+            <p className="text-red-400 text-sm mt-1">{errors.feeBps.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">Keeper Address</label>
+        <input
+          {...register('keeper')}
+          type="text"
+          className="input w-full"
+          placeholder="0x... (leave empty for permissionless execution)"
+        />
+        {errors.keeper && (
+          <p className="text-red-400 text-sm mt-1">{errors.keeper.message}</p>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          {...register('paused')}
+          type="checkbox"
+          className="rounded bg-gray-700 border-gray-600 text-primary-500"
+        />
+        Paused
+      </label>
+
+      {changes.length > 0 && proposed && (
+        <div className="rounded-lg border border-gray-700 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 bg-gray-800">
+                <th className="px-3 py-2 font-medium">Field</th>
+                <th className="px-3 py-2 font-medium">Current</th>
+                <th className="px-3 py-2 font-medium">New</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((field) => (
+                <tr key={field} className="border-t border-gray-700">
+                  <td className="px-3 py-2 text-gray-400">{CONFIG_LABELS[field]}</td>
+                  <td className="px-3 py-2 line-through text-gray-500">
+                    {formatField(field, config, quoteDecimals, quoteSymbol)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatField(field, proposed, quoteDecimals, quoteSymbol)}
+                    {isQueued && TIMELOCKED_FIELDS.includes(field) && (
+                      <span className="ml-2 text-xs text-yellow-400">after delay</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isQueued && (
+        <p className="flex gap-2 p-3 rounded-lg bg-gray-800 text-sm text-gray-300">
+          <ClockIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Raising the fee, widening slippage or changing the keeper is queued for{' '}
+            {formatDuration(CONFIG_DELAY_SECONDS)} so depositors can withdraw first. Anyone can apply it from
+            this page once the delay has passed.
+            {pendingConfig && ' This replaces the change that is already queued.'}
+          </span>
+        </p>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="p-3 rounded-lg bg-yellow-500/10 text-sm text-yellow-300 space-y-2">
+          {warnings.map((warning) => (
+            <p key={warning.field} className="flex gap-2">
+              <AlertTriangleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                <span className="font-medium">{CONFIG_LABELS[warning.field]}:</span> {warning.message}
+              </span>
+            </p>
+          ))}
+          <label className="flex items-center gap-2 pt-1">
+            <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+            Apply these changes anyway
+          </label>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={changes.length === 0 || (warnings.length > 0 && !acknowledged) || isSaving}
+        className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSaving ? (
+          <>
+            <LoadingSpinner size="sm" />
+            Confirming...
+          </>
+        ) : (
+          <>
+            <SettingsIcon className="w-4 h-4" />
+            Update Configuration
+          </>
+        )}
+      </button>
+    </form>
+  );
+}
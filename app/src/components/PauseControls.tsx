@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useContractWrite, usePublicClient } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { PauseIcon, PlayIcon } from 'lucide-react';
+import type { Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { MICRO_DCA_VAULT_ABI } from '@/lib/contracts';
+import { getErrorMessage } from '@/lib/errors';
+
+interface PauseControlsProps {
+  address: Address;
+  paused: boolean;
+  // Only the owner can unpause; a guardian just sees that the vault is halted
+  canUnpause: boolean;
+}
+
+/**
+ * Pause or unpause a vault without rewriting the rest of its config
+ */
+export default function PauseControls({ address, paused, canUnpause }: PauseControlsProps) {
+  const publicClient = usePublicClient();
+  const [isSending, setIsSending] = useState(false);
+
+  const { writeAsync: pause } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'pause',
+  });
+  const { writeAsync: unpause } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'unpause',
+  });
+
+  const handleClick = async () => {
+    try {
+      setIsSending(true);
+
+      const { hash } = paused ? await unpause() : await pause();
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('Transaction reverted');
+
+      toast.success(paused ? 'Vault resumed' : 'Vault paused');
+    } catch (error) {
+      console.error(`${paused ? 'unpause' : 'pause'} failed:`, error);
+      toast.error(getErrorMessage(error, paused ? 'Failed to resume vault' : 'Failed to pause vault'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (paused && !canUnpause) {
+    return <p className="text-sm text-gray-400">Only the owner can resume this vault.</p>;
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isSending}
+      className={`${
+        paused ? 'btn-secondary' : 'bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium'
+      } w-full inline-flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+    >
+      {isSending ? (
+        <LoadingSpinner size="sm" />
+      ) : paused ? (
+        <PlayIcon className="w-4 h-4" />
+      ) : (
+        <PauseIcon className="w-4 h-4" />
+      )}
+      {paused ? 'Resume Vault' : 'Pause Vault'}
+    </button>
+  );
+}
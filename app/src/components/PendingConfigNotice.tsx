@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useContractWrite, usePublicClient } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { ClockIcon } from 'lucide-react';
+import { zeroAddress, type Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { MICRO_DCA_VAULT_ABI, type PendingConfig, type VaultConfig } from '@/lib/contracts';
+import { formatAddress, formatBps, formatDate, getTimeUntilNext } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+import { CONFIG_GRACE_PERIOD_SECONDS, CONFIG_LABELS, applyPending, diffConfig } from '@/lib/vaultConfig';
+
+interface PendingConfigNoticeProps {
+  address: Address;
+  config: VaultConfig;
+  pendingConfig: PendingConfig;
+  isOwner: boolean;
+}
+
+function formatField(field: keyof VaultConfig, config: VaultConfig) {
+  switch (field) {
+    case 'maxSlippageBps':
+      return formatBps(config.maxSlippageBps);
+    case 'feeBps':
+      return formatBps(config.feeBps);
+    case 'keeper':
+      return config.keeper === zeroAddress ? 'Permissionless' : formatAddress(config.keeper);
+    default:
+      return String(config[field]);
+  }
+}
+
+/**
+ * Warn depositors about a queued fee, slippage or keeper change and count down to when it
+ * can land. Anyone can apply it after the ETA until the grace period runs out; only the
+ * owner can cancel it
+ */
+export default function PendingConfigNotice({ address, config, pendingConfig, isOwner }: PendingConfigNoticeProps) {
+  const publicClient = usePublicClient();
+  const [isSending, setIsSending] = useState<'apply' | 'cancel'>();
+
+  const next = applyPending(config, pendingConfig);
+  const changes = diffConfig(config, next);
+  const countdown = getTimeUntilNext(pendingConfig.eta);
+  const expiresAt = pendingConfig.eta + BigInt(CONFIG_GRACE_PERIOD_SECONDS);
+  const isExpired = getTimeUntilNext(expiresAt).isReady;
+
+  const { writeAsync: applyConfig } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'applyConfig',
+  });
+  const { writeAsync: cancelConfig } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'cancelConfig',
+  });
+
+  const send = async (action: 'apply' | 'cancel') => {
+    try {
+      setIsSending(action);
+
+      const { hash } = action === 'apply' ? await applyConfig() : await cancelConfig();
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('Transaction reverted');
+
+      toast.success(action === 'apply' ? 'Queued change applied' : 'Queued change cancelled');
+    } catch (error) {
+      console.error(`${action}Config failed:`, error);
+      toast.error(
+        getErrorMessage(error, action === 'apply' ? 'Failed to apply the change' : 'Failed to cancel the change')
+      );
+    } finally {
+      setIsSending(undefined);
+    }
+  };
+
+  return (
+    <div className="card border border-yellow-500/40 mb-6">
+      <div className="flex items-start gap-3">
+        <ClockIcon className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h2 className="font-semibold text-yellow-300">
+              {isExpired
+                ? 'A queued config change has expired'
+                : countdown.isReady
+                  ? 'A queued config change can be applied now'
+                  : `Config change in ${countdown.formatted}`}
+            </h2>
+            {isExpired ? (
+              <p className="text-sm text-gray-400">
+                It was not applied by {formatDate(expiresAt)} and can no longer take effect. The owner has to queue it
+                again, which restarts the delay.
+              </p>
+            ) : (
+              <p className="text-sm text-gray-400">
+                The owner has queued the change below. It can take effect from {formatDate(pendingConfig.eta)}; if you
+                do not agree with it, withdraw before then. If nobody applies it by {formatDate(expiresAt)}, it expires.
+              </p>
+            )}
+          </div>
+
+          {changes.length > 0 ? (
+            <ul className="text-sm space-y-1">
+              {changes.map((field) => (
+                <li key={field}>
+                  <span className="text-gray-400">{CONFIG_LABELS[field]}:</span>{' '}
+                  <span className="line-through text-gray-500">{formatField(field, config)}</span>{' '}
+                  → <span className="font-medium">{formatField(field, next)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">The queued values match the current config.</p>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            {countdown.isReady && !isExpired && (
+              <button
+                onClick={() => send('apply')}
+                disabled={!!isSending}
+                className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSending === 'apply' && <LoadingSpinner size="sm" />}
+                Apply Change
+              </button>
+            )}
+            {isOwner && (
+              <button
+                onClick={() => send('cancel')}
+                disabled={!!isSending}
+                className="btn-outline inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSending === 'cancel' && <LoadingSpinner size="sm" />}
+                Cancel Change
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
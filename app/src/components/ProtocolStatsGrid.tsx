@@ -0,0 +1,97 @@
+import type { ReactNode } from 'react';
+import { AlertTriangleIcon } from 'lucide-react';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useProtocolStats } from '@/hooks/useProtocolStats';
+import { useTokenInfos } from '@/hooks/useTokenInfo';
+import { formatTokenAmount } from '@/lib/format';
+
+interface StatCardProps {
+  label: string;
+  colorClass: string;
+  isLoading: boolean;
+  partialNote?: string;
+  children: ReactNode;
+}
+
+function StatCard({ label, colorClass, isLoading, partialNote, children }: StatCardProps) {
+  return (
+    <div className="card text-center">
+      <div className={`text-3xl font-bold mb-2 min-h-[2.25rem] flex flex-col items-center justify-center ${colorClass}`}>
+        {isLoading ? <LoadingSpinner size="sm" /> : children}
+      </div>
+      <div className="text-gray-300">{label}</div>
+      {!isLoading && partialNote && (
+        <div className="mt-2 text-xs text-yellow-400 flex items-center justify-center gap-1" title={partialNote}>
+          <AlertTriangleIcon className="w-3 h-3" />
+          {partialNote}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Protocol-wide totals for the home page. Amounts are grouped by quote token since
+ * vaults can be denominated in different assets
+ */
+export default function ProtocolStatsGrid() {
+  const { data: stats, isLoading, isError } = useProtocolStats();
+  const { tokens } = useTokenInfos(stats?.totals.map((total) => total.quoteToken) ?? []);
+
+  const vaultsNote =
+    stats && stats.loadedVaultCount < stats.vaultCount
+      ? `Partial: ${stats.loadedVaultCount} of ${stats.vaultCount} vaults loaded`
+      : undefined;
+  const errorNote = isError ? 'Unable to load protocol data' : undefined;
+
+  const renderAmounts = (field: 'totalFilledQuote' | 'totalAssets') => {
+    if (!stats) return '—';
+    const totals = stats.totals.filter((total) => total[field] > 0n);
+    if (totals.length === 0) return '0';
+
+    return totals.map((total) => {
+      const token = tokens.get(total.quoteToken.toLowerCase());
+      return (
+        <span key={total.quoteToken} className={totals.length > 1 ? 'text-xl' : undefined}>
+          {token ? `${formatTokenAmount(total[field], token.decimals, 2)} ${token.symbol}` : '…'}
+        </span>
+      );
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-12">
+      <StatCard label="Total Vaults" colorClass="text-primary-400" isLoading={isLoading} partialNote={errorNote}>
+        {stats ? stats.vaultCount.toLocaleString() : '—'}
+      </StatCard>
+      <StatCard
+        label="Total Quote Filled"
+        colorClass="text-green-400"
+        isLoading={isLoading}
+        partialNote={errorNote ?? vaultsNote}
+      >
+        {renderAmounts('totalFilledQuote')}
+      </StatCard>
+      <StatCard label="TVL" colorClass="text-purple-400" isLoading={isLoading} partialNote={errorNote ?? vaultsNote}>
+        {renderAmounts('totalAssets')}
+      </StatCard>
+      <StatCard
+        label="Active / Paused"
+        colorClass="text-yellow-400"
+        isLoading={isLoading}
+        partialNote={errorNote ?? vaultsNote}
+      >
+        {stats ? `${stats.activeCount} / ${stats.pausedCount}` : '—'}
+      </StatCard>
+      <StatCard
+        label="Fills (24h)"
+        colorClass="text-blue-400"
+        isLoading={isLoading}
+        partialNote={errorNote ?? (stats && stats.fills24h === null ? 'Fill events unavailable' : undefined)}
+      >
+        {stats?.fills24h != null ? stats.fills24h.toLocaleString() : '—'}
+      </StatCard>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useSignMessage } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { ExternalLinkIcon, XIcon } from 'lucide-react';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { chains } from '@/lib/wagmi';
+import { cancelRelayIntent, getCancelMessage } from '@/lib/relay';
+import { formatDate, formatTokenAmount, getRelativeTime } from '@/lib/format';
+import type { RelayIntent, RelayIntentStatus, TokenInfo } from '@/lib/contracts';
+import { getErrorMessage } from '@/lib/errors';
+
+const STATUS_STYLES: Record<RelayIntentStatus, string> = {
+  queued: 'bg-yellow-500/20 text-yellow-400',
+  submitted: 'bg-blue-500/20 text-blue-400',
+  executed: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  expired: 'bg-gray-500/20 text-gray-400',
+  cancelled: 'bg-gray-500/20 text-gray-400',
+};
+
+interface RelayIntentListProps {
+  intents: RelayIntent[] | undefined;
+  isLoading: boolean;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+  onChange?: () => void;
+}
+
+export default function RelayIntentList({
+  intents,
+  isLoading,
+  baseToken,
+  quoteToken,
+  onChange,
+}: RelayIntentListProps) {
+  const { signMessageAsync } = useSignMessage();
+  const [cancellingId, setCancellingId] = useState<string>();
+  const explorerUrl = chains[0]?.blockExplorers?.default.url;
+
+  const handleCancel = async (intent: RelayIntent) => {
+    try {
+      setCancellingId(intent.id);
+      const signature = await signMessageAsync({ message: getCancelMessage(intent.id) });
+      await cancelRelayIntent(intent.id, signature);
+      toast.success('Removed from the relayer queue');
+      onChange?.();
+    } catch (error) {
+      console.error('Cancel failed:', error);
+      toast.error(getErrorMessage(error, 'Failed to cancel'));
+    } finally {
+      setCancellingId(undefined);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  if (!intents || intents.length === 0) {
+    return <p className="text-sm text-gray-400">No signed cycles for this vault.</p>;
+  }
+
+  return (
+    <>
+      <ul className="space-y-2">
+        {intents.map((intent) => (
+          <li key={intent.id} className="bg-gray-700/50 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[intent.status]}`}>
+                {intent.status}
+              </span>
+              <span className="text-xs text-gray-400">
+                Nonce {intent.message.nonce.toString()} · {getRelativeTime(Math.floor(intent.createdAt / 1000))}
+              </span>
+            </div>
+
+            <div className="flex justify-between">
+              <span className="text-gray-400">Spend:</span>
+              <span>{formatTokenAmount(intent.message.quoteAmount, quoteToken.decimals)} {quoteToken.symbol}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Min received:</span>
+              <span>{formatTokenAmount(intent.message.minOut, baseToken.decimals)} {baseToken.symbol}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Expires:</span>
+              <span>{formatDate(intent.message.deadline)}</span>
+            </div>
+
+            {intent.error && <p className="text-xs text-red-400 mt-1 break-words">{intent.error}</p>}
+
+            <div className="flex justify-end gap-3 mt-2">
+              {intent.transactionHash && explorerUrl && (
+                <a
+                  href={`${explorerUrl}/tx/${intent.transactionHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-primary-400 hover:text-primary-300"
+                >
+                  View tx
+                  <ExternalLinkIcon className="w-3 h-3" />
+                </a>
+              )}
+              {intent.status === 'queued' && (
+                <button
+                  onClick={() => handleCancel(intent)}
+                  title="Removes the intent from the relayer queue only; the signature stays valid on-chain"
+                  disabled={cancellingId === intent.id}
+                  className="inline-flex items-center gap-1 text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  {cancellingId === intent.id ? <LoadingSpinner size="sm" /> : <XIcon className="w-3 h-3" />}
+                  Cancel
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {intents.some((intent) => intent.status === 'queued') && (
+        <p className="text-xs text-gray-400 mt-2">
+          Cancel is off-chain only: it removes the intent from this relayer&apos;s queue, but the signature stays valid
+          on-chain until its deadline or until your nonce is used by another cycle.
+        </p>
+      )}
+    </>
+  );
+}
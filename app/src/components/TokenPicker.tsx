@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog } from '@headlessui/react';
+import { AlertTriangleIcon, ChevronDownIcon, SearchIcon, XIcon } from 'lucide-react';
+import type { Address } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useTokenList } from '@/hooks/useTokenList';
+import type { TokenInfo } from '@/lib/contracts';
+import { formatAddress, isValidAddress } from '@/lib/format';
+import { TOKEN_LIST_URL, searchTokens, verifyListedToken, type ListedToken } from '@/lib/tokenList';
+import { fetchTokenInfo } from '@/lib/tokens';
+import { getErrorMessage } from '@/lib/errors';
+
+interface TokenPickerProps {
+  value?: TokenInfo;
+  onChange: (token: TokenInfo) => void;
+  // The token picked on the other side of the pair, which cannot be chosen again
+  exclude?: Address;
+}
+
+function ImportToken({ address, onImport }: { address: Address; onImport: (token: TokenInfo) => void }) {
+  const publicClient = usePublicClient();
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const { data: token, isLoading, isError } = useQuery({
+    queryKey: ['token', address.toLowerCase()],
+    queryFn: () => fetchTokenInfo(publicClient, address),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  if (isError || !token) {
+    return <p className="text-sm text-red-400 py-4">No ERC-20 token found at {formatAddress(address)}</p>;
+  }
+
+  return (
+    <div className="space-y-3 py-2">
+      <div>
+        <div className="font-medium">{token.symbol}</div>
+        <div className="text-xs text-gray-400">
+          {token.name} · {token.decimals} decimals · {formatAddress(token.address)}
+        </div>
+      </div>
+      <div className="flex gap-2 p-3 rounded-lg bg-yellow-500/10 text-sm text-yellow-300">
+        <AlertTriangleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <span>
+          This token is not on the token list. Anyone can deploy a token with any name and symbol, including
+          copies of real tokens. Only import it if you trust this address.
+        </span>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+        I understand the risk
+      </label>
+      <button
+        type="button"
+        onClick={() => onImport(token)}
+        disabled={!acknowledged}
+        className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Import {token.symbol}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Choose a token from the configured list or import one by address. Listed tokens are
+ * checked against their on-chain symbol and decimals before they can be picked
+ */
+export default function TokenPicker({ value, onChange, exclude }: TokenPickerProps) {
+  const publicClient = usePublicClient();
+  const { tokens, isLoading, isError, importToken } = useTokenList();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [verifying, setVerifying] = useState<Address>();
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+
+  const selectable = tokens.filter((token) => token.address.toLowerCase() !== exclude?.toLowerCase());
+  const matches = searchTokens(selectable, search);
+  const query = search.trim();
+  const importAddress =
+    isValidAddress(query) &&
+    query.toLowerCase() !== exclude?.toLowerCase() &&
+    !tokens.some((token) => token.address.toLowerCase() === query.toLowerCase())
+      ? (query as Address)
+      : undefined;
+
+  const close = () => {
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  const select = (token: TokenInfo) => {
+    onChange(token);
+    close();
+  };
+
+  const handlePick = async (token: ListedToken) => {
+    const key = token.address.toLowerCase();
+    try {
+      setVerifying(token.address);
+      setRowErrors((current) => ({ ...current, [key]: '' }));
+
+      const { info, mismatches } = await verifyListedToken(publicClient, token);
+      if (mismatches.length > 0) {
+        setRowErrors((current) => ({ ...current, [key]: `On-chain ${mismatches.join('; ')}` }));
+        return;
+      }
+      select(info);
+    } catch (error) {
+      setRowErrors((current) => ({ ...current, [key]: getErrorMessage(error, 'Could not read this token') }));
+    } finally {
+      setVerifying(undefined);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="input w-full flex items-center justify-between text-left"
+      >
+        {value ? (
+          <span>
+            <span className="font-medium">{value.symbol}</span>
+            <span className="text-xs text-gray-400 ml-2">{formatAddress(value.address)}</span>
+          </span>
+        ) : (
+          <span className="text-gray-400">Select a token</span>
+        )}
+        <ChevronDownIcon className="w-4 h-4 text-gray-400" />
+      </button>
+
+      <Dialog open={isOpen} onClose={close} className="relative z-50">
+        <div className="fixed inset-0 bg-black/60" aria-hidden="true" />
+
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Dialog.Panel className="card w-full max-w-md max-h-[80vh] flex flex-col">
+            <div className="flex items-center justify-between mb-4">
+              <Dialog.Title className="text-xl font-semibold">Select a token</Dialog.Title>
+              <button type="button" onClick={close} className="text-gray-400 hover:text-white p-1">
+                <XIcon className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="relative mb-4">
+              <SearchIcon className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by symbol or paste an address"
+                className="input w-full pl-9"
+                autoFocus
+              />
+            </div>
+
+            <div className="overflow-y-auto -mx-2">
+              {importAddress ? (
+                <div className="px-2">
+                  <ImportToken
+                    address={importAddress}
+                    onImport={(token) => {
+                      importToken(token);
+                      select(token);
+                    }}
+                  />
+                </div>
+              ) : isLoading ? (
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner size="sm" />
+                </div>
+              ) : matches.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-6">
+                  {isError
+                    ? 'The token list could not be loaded. Paste a token address to import it.'
+                    : !TOKEN_LIST_URL && tokens.length === 0
+                      ? 'No token list is configured. Paste a token address to import it.'
+                      : 'No tokens match your search'}
+                </p>
+              ) : (
+                <ul>
+                  {matches.map((token) => {
+                    const key = token.address.toLowerCase();
+                    return (
+                      <li key={key}>
+                        <button
+                          type="button"
+                          onClick={() => handlePick(token)}
+                          disabled={!!verifying}
+                          className="w-full flex items-center justify-between gap-3 px-2 py-2 rounded-lg text-left hover:bg-gray-700 disabled:cursor-wait"
+                        >
+                          <span className="flex items-center gap-3 min-w-0">
+                            {token.logoURI ? (
+                              <img src={token.logoURI} alt="" className="w-6 h-6 rounded-full" />
+                            ) : (
+                              <span className="w-6 h-6 rounded-full bg-gray-600" />
+                            )}
+                            <span className="min-w-0">
+                              <span className="font-medium">{token.symbol}</span>
+                              {token.custom && (
+                                <span className="ml-2 text-xs text-yellow-400">Imported</span>
+                              )}
+                              <span className="block text-xs text-gray-400 truncate">{token.name}</span>
+                            </span>
+                          </span>
+                          {verifying === token.address ? (
+                            <LoadingSpinner size="sm" />
+                          ) : (
+                            <span className="text-xs text-gray-400">{formatAddress(token.address)}</span>
+                          )}
+                        </button>
+                        {rowErrors[key] && <p className="text-xs text-red-400 px-2 pb-2">{rowErrors[key]}</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </Dialog.Panel>
+        </div>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect } from 'react';
+import { useWaitForTransaction } from 'wagmi';
+import { CheckCircleIcon, ExternalLinkIcon, HelpCircleIcon, XCircleIcon } from 'lucide-react';
+import type { Hash, TransactionReceipt } from 'viem';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { chains } from '@/lib/wagmi';
+import { formatAddress } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+
+interface TransactionStatusProps {
+  hash: Hash;
+  label: string;
+  onConfirmed?: (receipt: TransactionReceipt) => void;
+}
+
+export default function TransactionStatus({ hash, label, onConfirmed }: TransactionStatusProps) {
+  const { data: receipt, isLoading, isError, error, refetch } = useWaitForTransaction({ hash });
+  const explorerUrl = chains[0]?.blockExplorers?.default.url;
+
+  const isConfirmed = receipt?.status === 'success';
+  const isReverted = receipt?.status === 'reverted';
+  // Polling failed before a receipt arrived; the transaction may still have landed
+  const isUnknown = isError && !receipt;
+
+  useEffect(() => {
+    if (receipt?.status === 'success') onConfirmed?.(receipt);
+    // Only fire once per receipt
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [receipt]);
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 text-sm ${
+        isReverted
+          ? 'border-red-500/40 bg-red-500/10 text-red-300'
+          : isUnknown
+            ? 'border-gray-500/40 bg-gray-500/10 text-gray-300'
+            : isConfirmed
+              ? 'border-green-500/40 bg-green-500/10 text-green-300'
+              : 'border-yellow-500/40 bg-yellow-500/10 text-yellow-300'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        {isLoading ? (
+          <LoadingSpinner size="sm" />
+        ) : isReverted ? (
+          <XCircleIcon className="w-4 h-4" />
+        ) : isUnknown ? (
+          <HelpCircleIcon className="w-4 h-4" />
+        ) : (
+          <CheckCircleIcon className="w-4 h-4" />
+        )}
+        <span>
+          {label}: {isLoading ? 'pending' : isReverted ? 'reverted' : isUnknown ? 'status unknown' : 'confirmed'}
+          {isUnknown && (
+            <span className="block text-xs text-gray-400">
+              {getErrorMessage(error, 'Could not fetch the receipt')}{' '}
+              <button type="button" onClick={() => refetch()} className="underline hover:text-white">
+                Check again
+              </button>
+            </span>
+          )}
+        </span>
+      </div>
+
+      {explorerUrl && (
+        <a
+          href={`${explorerUrl}/tx/${hash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs hover:text-white"
+        >
+          {formatAddress(hash)}
+          <ExternalLinkIcon className="w-3 h-3" />
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { useAccount, useContractReads, useContractWrite } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import { formatUnits, type Address, type Hash } from 'viem';
+import { AlertTriangleIcon } from 'lucide-react';
+
+import LoadingSpinner from '@/components/LoadingSpinner';
+import DepositFlow from '@/components/DepositFlow';
+import TransactionStatus from '@/components/TransactionStatus';
+import { useTokenInfo } from '@/hooks/useTokenInfo';
+import { MICRO_DCA_VAULT_ABI, type TokenInfo } from '@/lib/contracts';
+import type { VaultAssets } from '@/lib/priceSource';
+import { formatTokenAmount, parseTokenAmount } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+
+type Action = 'deposit' | 'withdraw' | 'redeem' | 'inKind';
+
+interface VaultActionsProps {
+  address: Address;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+  /** Vault holdings; withdraw and redeem are closed while the base price is not fresh */
+  assets?: VaultAssets;
+}
+
+const ACTIONS: { id: Action; label: string }[] = [
+  { id: 'deposit', label: 'Deposit' },
+  { id: 'withdraw', label: 'Withdraw' },
+  { id: 'redeem', label: 'Redeem' },
+  // Pays out both tokens without a price, so it works while the oracle is stale
+  { id: 'inKind', label: 'Exit in Kind' },
+];
+
+export default function VaultActions({ address, baseToken, quoteToken, assets }: VaultActionsProps) {
+  const { address: account, isConnected } = useAccount();
+  const [action, setAction] = useState<Action>('deposit');
+  const [amount, setAmount] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [txHash, setTxHash] = useState<Hash>();
+
+  // Vault shares are themselves an ERC-20 with their own decimals
+  const { data: shareToken } = useTokenInfo(address);
+  const shareDecimals = shareToken?.decimals ?? quoteToken.decimals;
+  const quoteSymbol = quoteToken.symbol;
+
+  const isShareAmount = action === 'redeem' || action === 'inKind';
+  const parsedAmount = parseTokenAmount(amount, isShareAmount ? shareDecimals : quoteToken.decimals);
+
+  // Position and previews for the entered amount
+  const { data: positionData } = useContractReads({
+    contracts: [
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'balanceOf', args: [account as Address] },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'maxWithdraw', args: [account as Address] },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'maxRedeem', args: [account as Address] },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'previewWithdraw', args: [parsedAmount] },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'previewRedeem', args: [parsedAmount] },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'previewRedeemInKind', args: [parsedAmount] },
+    ],
+    enabled: !!account,
+    watch: true,
+  });
+
+  const shareBalance = (positionData?.[0]?.result as bigint) || 0n;
+  const maxWithdraw = (positionData?.[1]?.result as bigint) || 0n;
+  const maxRedeem = (positionData?.[2]?.result as bigint) || 0n;
+  const previewWithdraw = (positionData?.[3]?.result as bigint) || 0n;
+  const previewRedeem = (positionData?.[4]?.result as bigint) || 0n;
+  const [previewQuoteOut, previewBaseOut] =
+    (positionData?.[5]?.result as readonly [bigint, bigint] | undefined) ?? [0n, 0n];
+
+  // Withdraw and redeem price shares with the oracle and only pay out the quote balance,
+  // so a stale price closes them and the base leg is only reachable in kind
+  const isQuoteExit = action === 'withdraw' || action === 'redeem';
+  const isStale = !!assets && !assets.fresh;
+  const exceedsCap =
+    action === 'withdraw' ? parsedAmount > maxWithdraw : action === 'redeem' && parsedAmount > maxRedeem;
+  const isBlocked = isQuoteExit && (isStale || exceedsCap);
+
+  const { writeAsync: withdraw } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'withdraw',
+  });
+
+  const { writeAsync: redeem } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'redeem',
+  });
+
+  const { writeAsync: redeemInKind } = useContractWrite({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'redeemInKind',
+  });
+
+  const handleSubmit = async () => {
+    if (!account || parsedAmount === 0n || isBlocked) return;
+
+    try {
+      setIsSubmitting(true);
+
+      const { hash } = action === 'withdraw'
+        ? await withdraw({ args: [parsedAmount, account, account] })
+        : action === 'inKind'
+          ? await redeemInKind({ args: [parsedAmount, account, account] })
+          : await redeem({ args: [parsedAmount, account, account] });
+      setTxHash(hash);
+
+      setAmount('');
+    } catch (error) {
+      console.error(`${action} failed:`, error);
+      toast.error(getErrorMessage(error, `Failed to ${action}`));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const setMax = () => {
+    if (action === 'withdraw') setAmount(formatUnits(maxWithdraw, quoteToken.decimals));
+    if (action === 'redeem') setAmount(formatUnits(maxRedeem, shareDecimals));
+    if (action === 'inKind') setAmount(formatUnits(shareBalance, shareDecimals));
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="text-center py-4 text-gray-400">
+        Connect your wallet to deposit or withdraw
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Action tabs */}
+      <div className="flex gap-1 mb-4 bg-gray-700 rounded-lg p-1">
+        {ACTIONS.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => {
+              setAction(item.id);
+              setAmount('');
+              setTxHash(undefined);
+            }}
+            className={`flex-1 py-2 rounded-md text-sm font-medium transition-colors ${
+              action === item.id
+                ? 'bg-primary-500 text-white'
+                : 'text-gray-300 hover:text-white'
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Position */}
+      <div className="space-y-2 mb-4 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-400">Your shares:</span>
+          <span>{formatTokenAmount(shareBalance, shareDecimals)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Withdrawable:</span>
+          <span>{formatTokenAmount(maxWithdraw, quoteToken.decimals)} {quoteSymbol}</span>
+        </div>
+      </div>
+
+      {action === 'deposit' ? (
+        <DepositFlow vault={address} quoteToken={quoteToken} shareDecimals={shareDecimals} />
+      ) : (
+        <>
+          {/* Amount input */}
+          <label className="block text-sm font-medium mb-2">
+            {isShareAmount ? 'Shares' : `Amount (${quoteSymbol})`}
+          </label>
+          <div className="flex gap-2 mb-2">
+            <input
+              type="text"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="input w-full"
+              placeholder="0.0"
+            />
+            <button onClick={setMax} className="btn-outline px-3">
+              Max
+            </button>
+          </div>
+
+          {isQuoteExit && isStale && (
+            <p className="flex items-center gap-1 text-xs text-yellow-400 mb-4">
+              <AlertTriangleIcon className="w-3 h-3 shrink-0" />
+              {assets?.baseValue === null ? 'No price' : 'Stale price'}: withdrawals are paused until the feed
+              updates. Use Exit in Kind to leave now.
+            </p>
+          )}
+          {isQuoteExit && !isStale && exceedsCap && (
+            <p className="flex items-center gap-1 text-xs text-yellow-400 mb-4">
+              <AlertTriangleIcon className="w-3 h-3 shrink-0" />
+              The vault only pays out its {quoteSymbol} balance here. Use Exit in Kind to take the rest in{' '}
+              {baseToken.symbol} too.
+            </p>
+          )}
+
+          {/* Preview */}
+          {parsedAmount > 0n && !isBlocked && (
+            <p className="text-xs text-gray-400 mb-4">
+              {action === 'withdraw' && `Burns ~${formatTokenAmount(previewWithdraw, shareDecimals)} shares`}
+              {action === 'redeem' && `You will receive ~${formatTokenAmount(previewRedeem, quoteToken.decimals)} ${quoteSymbol}`}
+              {action === 'inKind' &&
+                `You will receive ~${formatTokenAmount(previewQuoteOut, quoteToken.decimals)} ${quoteSymbol} + ~${formatTokenAmount(previewBaseOut, baseToken.decimals)} ${baseToken.symbol}`}
+            </p>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || parsedAmount === 0n || isBlocked}
+            className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isSubmitting ? (
+              <>
+                <LoadingSpinner size="sm" />
+                Submitting...
+              </>
+            ) : (
+              ACTIONS.find((item) => item.id === action)?.label
+            )}
+          </button>
+
+          {txHash && (
+            <div className="mt-4">
+              <TransactionStatus
+                hash={txHash}
+                label={ACTIONS.find((item) => item.id === action)?.label ?? 'Withdraw'}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState } from 'react';
 import Link from 'next/link';
-import { useContractReads, useContractWrite } from 'wagmi';
-import { toast } from 'react-hot-toast';
+import { useContractReads } from 'wagmi';
 import { 
   CopyIcon, 
   TrendingUpIcon, 
@@ -9,15 +8,20 @@ import {
   DollarSignIcon,
   PauseIcon,
   PlayIcon,
-  ExternalLinkIcon
+  ExternalLinkIcon,
+  AlertTriangleIcon
 } from 'lucide-react';
 
 import LoadingSpinner from '@/components/LoadingSpinner';
+import ExecuteCycleButton from '@/components/ExecuteCycleButton';
+import CopyVaultDialog from '@/components/CopyVaultDialog';
+import CopiedFromBadge from '@/components/CopiedFromBadge';
+import { toVaultConfig } from '@/hooks/useVaultInfo';
+import { useTokenInfo } from '@/hooks/useTokenInfo';
+import { useVaultLineage } from '@/hooks/useVaultLineage';
+import { useVaultAssets } from '@/hooks/useVaultAssets';
 import { 
   MICRO_DCA_VAULT_ABI, 
-  ERC20_ABI, 
-  CONTRACT_ADDRESSES, 
-  VAULT_FACTORY_ABI,
   type VaultInfo 
 } from '@/lib/contracts';
 import { formatTokenAmount, formatBps, getTimeUntilNext, formatAddress } from '@/lib/format';
@@ -30,7 +34,7 @@ interface VaultCardProps {
 }
 
 export default function VaultCard({ address, showCopyButton = false, isOwned = false }: VaultCardProps) {
-  const [iscopying, setIscopying] = useState(false);
+  const [isCopyOpen, setIsCopyOpen] = useState(false);
 
   // Read vault data
   const { data: vaultData, isLoading } = useContractReads({
@@ -79,52 +83,22 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
     watch: true,
   });
 
-  // Read token symbols if vault data is loaded
-  const baseTokenAddress = vaultData?.[1]?.result as Address;
-  const quoteTokenAddress = vaultData?.[2]?.result as Address;
+  // Read token metadata if vault data is loaded
+  const baseTokenAddress = vaultData?.[1]?.result as Address | undefined;
+  const quoteTokenAddress = vaultData?.[2]?.result as Address | undefined;
 
-  const { data: tokenData } = useContractReads({
-    contracts: [
-      {
-        address: baseTokenAddress,
-        abi: ERC20_ABI,
-        functionName: 'symbol',
-      },
-      {
-        address: quoteTokenAddress,
-        abi: ERC20_ABI,
-        functionName: 'symbol',
-      },
-    ],
-    enabled: !!(baseTokenAddress && quoteTokenAddress),
-  });
-
-  // Copy vault mutation
-  const { writeAsync: copyVault } = useContractWrite({
-    address: CONTRACT_ADDRESSES.VAULT_FACTORY,
-    abi: VAULT_FACTORY_ABI,
-    functionName: 'copyVault',
-  });
-
-  const handleCopy = async () => {
-    if (!copyVault) return;
+  const { data: baseTokenInfo } = useTokenInfo(baseTokenAddress);
+  const { data: quoteTokenInfo, isLoading: isQuoteLoading } = useTokenInfo(quoteTokenAddress);
+  const { source, copyCount } = useVaultLineage(address);
 
-    try {
-      setIscopying(true);
-      const tx = await copyVault({
-        args: [address],
-      });
-      
-      toast.success('Vault copied successfully!');
-    } catch (error: any) {
-      console.error('Copy failed:', error);
-      toast.error(error?.message || 'Failed to copy vault');
-    } finally {
-      setIscopying(false);
-    }
-  };
+  const totalAssetsRead = vaultData?.[4]?.result as bigint | undefined;
+  const { data: assets } = useVaultAssets(
+    baseTokenAddress && quoteTokenAddress && totalAssetsRead !== undefined
+      ? { address, baseToken: baseTokenAddress, quoteToken: quoteTokenAddress, totalAssets: totalAssetsRead }
+      : undefined
+  );
 
-  if (isLoading) {
+  if (isLoading || isQuoteLoading) {
     return (
       <div className="card">
         <div className="flex justify-center py-8">
@@ -134,7 +108,7 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
     );
   }
 
-  if (!vaultData || vaultData.some(d => d.status === 'failure')) {
+  if (!vaultData || vaultData.some(d => d.status === 'failure') || !quoteTokenInfo) {
     return (
       <div className="card">
         <div className="text-center py-8 text-gray-400">
@@ -151,8 +125,9 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
   const totalFilledBase = vaultData[6]?.result as bigint;
   const nextExecTime = vaultData[7]?.result as bigint;
 
-  const baseSymbol = tokenData?.[0]?.result as string || 'BASE';
-  const quoteSymbol = tokenData?.[1]?.result as string || 'QUOTE';
+  const baseSymbol = baseTokenInfo?.symbol || 'BASE';
+  const quoteSymbol = quoteTokenInfo.symbol;
+  const quoteDecimals = quoteTokenInfo.decimals;
 
   const timeUntilNext = getTimeUntilNext(nextExecTime);
   const isPaused = config?.[5]; // paused flag
@@ -168,6 +143,11 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
           <p className="text-sm text-gray-400">
             by {formatAddress(owner)}
           </p>
+          {source && (
+            <div className="mt-2">
+              <CopiedFromBadge source={source} />
+            </div>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
@@ -183,15 +163,13 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
           {/* Copy button */}
           {showCopyButton && (
             <button
-              onClick={handleCopy}
-              disabled={isOwned || iscopying}
+              onClick={() => setIsCopyOpen(true)}
+              disabled={isOwned}
               className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               title={isOwned ? "Can't copy own vault" : "Copy this strategy"}
             >
               {isOwned ? (
                 <ExternalLinkIcon className="w-4 h-4" />
-              ) : isLoading ? (
-                <LoadingSpinner size="sm" />
               ) : (
                 <CopyIcon className="w-4 h-4" />
               )}
@@ -205,13 +183,34 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
         <div>
           <div className="text-sm text-gray-400">Total Assets</div>
           <div className="font-medium">
-            {formatTokenAmount(totalAssets)} {quoteSymbol}
+            {formatTokenAmount(totalAssets, quoteDecimals)} {quoteSymbol}
           </div>
+          {assets && baseTokenInfo && (
+            <div className="text-xs text-gray-400 mt-1 space-y-0.5">
+              <div>
+                {formatTokenAmount(assets.quoteBalance, quoteDecimals)} {quoteSymbol}
+              </div>
+              <div>
+                + {formatTokenAmount(assets.baseBalance, baseTokenInfo.decimals)} {baseSymbol}
+                {assets.baseValue !== null &&
+                  ` ≈ ${formatTokenAmount(assets.baseValue, quoteDecimals)} ${quoteSymbol}`}
+              </div>
+              {!assets.fresh && (
+                <div
+                  className="flex items-center gap-1 text-yellow-400"
+                  title={`Oracle price is stale or unavailable, so ${baseSymbol} is not counted in Total Assets`}
+                >
+                  <AlertTriangleIcon className="w-3 h-3" />
+                  {assets.baseValue === null ? 'No price' : 'Stale price'}
+                </div>
+              )}
+            </div>
+          )}
         </div>
         <div>
           <div className="text-sm text-gray-400">Filled</div>
           <div className="font-medium">
-            {formatTokenAmount(totalFilledQuote)} {quoteSymbol}
+            {formatTokenAmount(totalFilledQuote, quoteDecimals)} {quoteSymbol}
           </div>
         </div>
       </div>
@@ -228,12 +227,18 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
         </div>
         <div className="flex justify-between">
           <span className="text-gray-400">Per Cycle Cap:</span>
-          <span>{formatTokenAmount(config?.[2] || 0n, 18, 0)} {quoteSymbol}</span>
+          <span>{formatTokenAmount(config?.[2] || 0n, quoteDecimals, 0)} {quoteSymbol}</span>
         </div>
         <div className="flex justify-between">
           <span className="text-gray-400">Fee:</span>
           <span>{formatBps(config?.[3] || 0)}</span>
         </div>
+        {copyCount !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-gray-400">Copies:</span>
+            <span>{copyCount}</span>
+          </div>
+        )}
       </div>
 
       {/* Status */}
@@ -258,6 +263,17 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
         </div>
       </div>
 
+      {timeUntilNext.isReady && !isPaused && baseTokenInfo && (
+        <div className="mb-4">
+          <ExecuteCycleButton
+            vault={address}
+            config={toVaultConfig(config)}
+            baseToken={baseTokenInfo}
+            quoteToken={quoteTokenInfo}
+          />
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex gap-2">
         <Link 
@@ -269,18 +285,25 @@ export default function VaultCard({ address, showCopyButton = false, isOwned = f
         
         {showCopyButton && !isOwned && (
           <button
-            onClick={handleCopy}
-            disabled={iscopying}
-            className="btn-secondary px-4 disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={() => setIsCopyOpen(true)}
+            className="btn-secondary px-4"
+            title="Copy this strategy"
           >
-            {isLoading ? (
-              <LoadingSpinner size="sm" />
-            ) : (
-              <CopyIcon className="w-4 h-4" />
-            )}
+            <CopyIcon className="w-4 h-4" />
           </button>
         )}
       </div>
+
+      {showCopyButton && !isOwned && (
+        <CopyVaultDialog
+          isOpen={isCopyOpen}
+          onClose={() => setIsCopyOpen(false)}
+          source={address}
+          config={toVaultConfig(config)}
+          baseSymbol={baseSymbol}
+          quoteToken={quoteTokenInfo}
+        />
+      )}
     </div>
   );
 }
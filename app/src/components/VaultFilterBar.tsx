@@ -0,0 +1,172 @@
+import { XIcon } from 'lucide-react';
+
+import {
+  DEFAULT_VAULT_FILTERS,
+  hasActiveFilters,
+  type KeeperFilter,
+  type VaultFilters,
+  type VaultSort,
+  type VaultStatusFilter,
+} from '@/lib/explorer';
+
+interface VaultFilterBarProps {
+  filters: VaultFilters;
+  onChange: (filters: VaultFilters) => void;
+}
+
+const SORT_LABELS: Record<VaultSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  tvl: 'Highest TVL',
+  volume: 'Most filled',
+  next: 'Next execution',
+};
+
+/**
+ * Parse a numeric input scaled into the filter's unit, or clear the bound when empty
+ */
+function scaledInput(value: string, multiplier: number): number | undefined {
+  if (value.trim() === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 0 ? Math.round(num * multiplier) : undefined;
+}
+
+function displayScaled(value: number | undefined, divisor: number): string {
+  return value === undefined ? '' : String(value / divisor);
+}
+
+export default function VaultFilterBar({ filters, onChange }: VaultFilterBarProps) {
+  const update = (changes: Partial<VaultFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="card mb-6 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Base token</label>
+          <input
+            type="text"
+            value={filters.base}
+            onChange={(e) => update({ base: e.target.value })}
+            placeholder="Symbol or 0x..."
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Quote token</label>
+          <input
+            type="text"
+            value={filters.quote}
+            onChange={(e) => update({ quote: e.target.value })}
+            placeholder="Symbol or 0x..."
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Owner</label>
+          <input
+            type="text"
+            value={filters.owner}
+            onChange={(e) => update({ owner: e.target.value })}
+            placeholder="0x..."
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Sort by</label>
+          <select
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as VaultSort })}
+            className="input w-full"
+          >
+            {(Object.keys(SORT_LABELS) as VaultSort[]).map((sort) => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Status</label>
+          <select
+            value={filters.status}
+            onChange={(e) => update({ status: e.target.value as VaultStatusFilter })}
+            className="input w-full"
+          >
+            <option value="all">All</option>
+            <option value="active">Active</option>
+            <option value="paused">Paused</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Keeper</label>
+          <select
+            value={filters.keeper}
+            onChange={(e) => update({ keeper: e.target.value as KeeperFilter })}
+            className="input w-full"
+          >
+            <option value="all">Any</option>
+            <option value="permissionless">Permissionless</option>
+            <option value="restricted">Restricted</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Interval (minutes)</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              value={displayScaled(filters.minInterval, 60)}
+              onChange={(e) => update({ minInterval: scaledInput(e.target.value, 60) })}
+              placeholder="Min"
+              className="input w-full"
+            />
+            <input
+              type="number"
+              min="0"
+              value={displayScaled(filters.maxInterval, 60)}
+              onChange={(e) => update({ maxInterval: scaledInput(e.target.value, 60) })}
+              placeholder="Max"
+              className="input w-full"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Fee (%)</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={displayScaled(filters.minFee, 100)}
+              onChange={(e) => update({ minFee: scaledInput(e.target.value, 100) })}
+              placeholder="Min"
+              className="input w-full"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={displayScaled(filters.maxFee, 100)}
+              onChange={(e) => update({ maxFee: scaledInput(e.target.value, 100) })}
+              placeholder="Max"
+              className="input w-full"
+            />
+          </div>
+        </div>
+      </div>
+
+      {hasActiveFilters(filters) && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_VAULT_FILTERS, sort: filters.sort })}
+          className="text-sm text-gray-400 hover:text-white inline-flex items-center gap-1"
+        >
+          <XIcon className="w-4 h-4" />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useVaultPerformance } from '@/hooks/useVaultPerformance';
+import { fillPrice } from '@/lib/analytics';
+import type { FillRecord, TokenInfo, VaultInfo } from '@/lib/contracts';
+import { formatBps, formatTokenAmount } from '@/lib/format';
+
+interface VaultPerformanceProps {
+  vault: VaultInfo;
+  fills: FillRecord[] | undefined;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+}
+
+function pnlClass(value: bigint): string {
+  if (value > 0n) return 'text-green-400';
+  if (value < 0n) return 'text-red-400';
+  return '';
+}
+
+export default function VaultPerformance({ vault, fills, baseToken, quoteToken }: VaultPerformanceProps) {
+  const { performance, isLoading, isError } = useVaultPerformance(vault, fills, baseToken);
+
+  const quote = (amount: bigint) => `${formatTokenAmount(amount, quoteToken.decimals)} ${quoteToken.symbol}`;
+  // formatTokenAmount only handles magnitudes, so the sign is added here
+  const signedQuote = (amount: bigint) =>
+    `${amount > 0n ? '+' : amount < 0n ? '-' : ''}${quote(amount < 0n ? -amount : amount)}`;
+  const signedBps = (bps: bigint | null) => (bps === null ? '' : ` (${bps > 0n ? '+' : ''}${formatBps(bps)})`);
+  const price = (amount: bigint | null) =>
+    amount === null
+      ? '—'
+      : `${formatTokenAmount(amount, quoteToken.decimals, 6)} ${quoteToken.symbol}/${baseToken.symbol}`;
+
+  if (isLoading || !fills) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (isError || !performance) {
+    return <div className="text-center py-8 text-gray-400">No router price available for this pair.</div>;
+  }
+
+  if (performance.fillCount === 0) {
+    return <div className="text-center py-8 text-gray-400">Performance appears after the first fill.</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+      <div>
+        <div className="text-gray-400">Average Entry Price</div>
+        <div className="text-lg font-semibold">{price(performance.averageEntryPrice)}</div>
+      </div>
+      <div>
+        <div className="text-gray-400">Market Price</div>
+        <div className="text-lg font-semibold">{price(performance.marketPrice)}</div>
+      </div>
+      <div>
+        <div className="text-gray-400">Cost Basis</div>
+        <div className="text-lg font-semibold">{quote(performance.costBasis)}</div>
+      </div>
+      <div>
+        <div className="text-gray-400">Current Value</div>
+        <div className="text-lg font-semibold">{quote(performance.currentValue)}</div>
+      </div>
+      <div>
+        <div className="text-gray-400">Unrealized PnL</div>
+        <div className={`text-lg font-semibold ${pnlClass(performance.unrealizedPnl)}`}>
+          {signedQuote(performance.unrealizedPnl)}
+          {signedBps(performance.unrealizedPnlBps)}
+        </div>
+      </div>
+      <div>
+        <div className="text-gray-400">vs. Lump Sum at First Fill</div>
+        <div className={`text-lg font-semibold ${pnlClass(performance.vsLumpSum)}`}>
+          {signedQuote(performance.vsLumpSum)}
+        </div>
+        <div className="text-xs text-gray-400">
+          {formatTokenAmount(performance.lumpSumBase, baseToken.decimals)} {baseToken.symbol} at{' '}
+          {price(performance.firstFill && fillPrice(performance.firstFill, baseToken.decimals))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import type { Address, PublicClient } from 'viem';
+
+import { CONTRACT_ADDRESSES, MICRO_DCA_VAULT_ABI } from '@/lib/contracts';
+import type { ExplorerVault } from '@/lib/explorer';
+import { fetchVaultAssets } from '@/lib/priceSource';
+import { fetchTokenInfo } from '@/lib/tokens';
+import { fetchAllVaults } from '@/lib/vaults';
+import { toVaultConfig } from '@/hooks/useVaultInfo';
+
+async function readExplorerVault(publicClient: PublicClient, address: Address, index: number) {
+  const contract = { address, abi: MICRO_DCA_VAULT_ABI } as const;
+
+  const [baseToken, quoteToken, owner, config, totalFilledQuote, nextExecTime] =
+    await Promise.all([
+      publicClient.readContract({ ...contract, functionName: 'baseToken' }),
+      publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+      publicClient.readContract({ ...contract, functionName: 'owner' }),
+      publicClient.readContract({ ...contract, functionName: 'getConfig' }) as Promise<
+        readonly [bigint, bigint, bigint, bigint, Address, boolean]
+      >,
+      publicClient.readContract({ ...contract, functionName: 'totalFilledQuote' }),
+      publicClient.readContract({ ...contract, functionName: 'nextExecTime' }),
+    ]);
+
+  const [baseInfo, quoteInfo, assets] = await Promise.all([
+    fetchTokenInfo(publicClient, baseToken),
+    fetchTokenInfo(publicClient, quoteToken),
+    fetchVaultAssets(publicClient, { address, baseToken, quoteToken }),
+  ]);
+
+  return {
+    address,
+    owner,
+    baseToken: baseInfo,
+    quoteToken: quoteInfo,
+    config: toVaultConfig(config),
+    assets,
+    totalFilledQuote,
+    nextExecTime,
+    index,
+  };
+}
+
+/**
+ * Load the filterable state of every factory vault. Vaults that fail to load are skipped
+ * and counted in `failedCount`
+ */
+export function useExplorerVaults(enabled: boolean = true) {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['explorerVaults'],
+    queryFn: async (): Promise<{ vaults: ExplorerVault[]; failedCount: number }> => {
+      const addresses = await fetchAllVaults(publicClient);
+      const results = await Promise.allSettled(
+        addresses.map((address, index) => readExplorerVault(publicClient, address, index))
+      );
+
+      const vaults = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+      return { vaults, failedCount: addresses.length - vaults.length };
+    },
+    enabled: enabled && CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
+    refetchInterval: 30000,
+  });
+}
@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query';
+import { useContractEvent, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+
+import { MICRO_DCA_VAULT_ABI, type FillRecord } from '@/lib/contracts';
+import { INDEXER_API_URL, fetchIndexedFills } from '@/lib/indexer';
+
+/**
+ * Load every Fill event emitted by a vault, newest first. Served by the indexer when
+ * one is configured, falling back to scanning logs over RPC
+ */
+export function useFillHistory(address: Address | undefined) {
+  const publicClient = usePublicClient();
+
+  const query = useQuery({
+    queryKey: ['fills', address],
+    queryFn: async (): Promise<FillRecord[]> => {
+      if (INDEXER_API_URL) {
+        try {
+          return await fetchIndexedFills(address as Address);
+        } catch (error) {
+          console.warn('Indexer unavailable, reading fills from RPC', error);
+        }
+      }
+
+      const logs = await publicClient.getContractEvents({
+        address: address as Address,
+        abi: MICRO_DCA_VAULT_ABI,
+        eventName: 'Fill',
+        fromBlock: 'earliest',
+        toBlock: 'latest',
+      });
+
+      return logs
+        .map((log) => ({
+          ts: log.args.ts as bigint,
+          quoteIn: log.args.quoteIn as bigint,
+          baseOut: log.args.baseOut as bigint,
+          blockNumber: log.blockNumber as bigint,
+          transactionHash: log.transactionHash as `0x${string}`,
+        }))
+        .reverse();
+    },
+    enabled: !!address,
+  });
+
+  // Refresh as soon as a new fill lands
+  useContractEvent({
+    address,
+    abi: MICRO_DCA_VAULT_ABI,
+    eventName: 'Fill',
+    listener: () => {
+      query.refetch();
+    },
+  });
+
+  return query;
+}
@@ -0,0 +1,143 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { getAbiItem, type Address, type PublicClient } from 'viem';
+
+import { strategyMetrics, type StrategyMetrics } from '@/lib/analytics';
+import {
+  CONTRACT_ADDRESSES,
+  MICRO_DCA_VAULT_ABI,
+  VAULT_FACTORY_ABI,
+  type FillRecord,
+  type TokenInfo,
+  type VaultConfig,
+} from '@/lib/contracts';
+import { getMarketPrice } from '@/lib/quote';
+import { fetchTokenInfo } from '@/lib/tokens';
+import { fetchAllVaults } from '@/lib/vaults';
+import { toVaultConfig } from '@/hooks/useVaultInfo';
+
+export interface LeaderboardEntry extends StrategyMetrics {
+  vault: Address;
+  owner: Address;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+  config: VaultConfig;
+  // null when the vault's router could not price the pair
+  spotPrice: bigint | null;
+}
+
+async function readStrategy(publicClient: PublicClient, vault: Address) {
+  const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+
+  const [baseToken, quoteToken, router, owner, config] = await Promise.all([
+    publicClient.readContract({ ...contract, functionName: 'baseToken' }),
+    publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+    publicClient.readContract({ ...contract, functionName: 'router' }),
+    publicClient.readContract({ ...contract, functionName: 'owner' }),
+    publicClient.readContract({ ...contract, functionName: 'getConfig' }) as Promise<
+      readonly [bigint, bigint, bigint, bigint, Address, boolean]
+    >,
+  ]);
+
+  const [baseInfo, quoteInfo] = await Promise.all([
+    fetchTokenInfo(publicClient, baseToken),
+    fetchTokenInfo(publicClient, quoteToken),
+  ]);
+
+  return { vault, owner, router, baseToken: baseInfo, quoteToken: quoteInfo, config: toVaultConfig(config) };
+}
+
+/**
+ * Rank-ready metrics for every factory vault: fills and copies come from one log query
+ * each, and vaults sharing a router and pair share a spot quote
+ */
+export function useLeaderboard() {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['leaderboard'],
+    queryFn: async (): Promise<LeaderboardEntry[]> => {
+      const vaults = await fetchAllVaults(publicClient);
+      if (vaults.length === 0) return [];
+
+      const [block, fillLogs, copyLogs, strategies] = await Promise.all([
+        publicClient.getBlock(),
+        publicClient.getLogs({
+          address: vaults,
+          event: getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'Fill' }),
+          fromBlock: 'earliest',
+        }),
+        publicClient.getLogs({
+          address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+          event: getAbiItem({ abi: VAULT_FACTORY_ABI, name: 'VaultCopied' }),
+          fromBlock: 'earliest',
+        }),
+        Promise.allSettled(vaults.map((vault) => readStrategy(publicClient, vault))),
+      ]);
+
+      const fillsByVault = new Map<string, FillRecord[]>();
+      for (const log of fillLogs) {
+        const key = log.address.toLowerCase();
+        const fills = fillsByVault.get(key) ?? [];
+        fills.push({
+          ts: log.args.ts as bigint,
+          quoteIn: log.args.quoteIn as bigint,
+          baseOut: log.args.baseOut as bigint,
+          blockNumber: log.blockNumber as bigint,
+          transactionHash: log.transactionHash as `0x${string}`,
+        });
+        fillsByVault.set(key, fills);
+      }
+
+      const copyCounts = new Map<string, number>();
+      for (const log of copyLogs) {
+        const key = (log.args.src as Address).toLowerCase();
+        copyCounts.set(key, (copyCounts.get(key) ?? 0) + 1);
+      }
+
+      // Vaults whose state cannot be read are left off the board
+      const loaded = strategies.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+
+      const spotPrices = new Map<string, Promise<bigint | null>>();
+      const spotPriceOf = ({ router, baseToken, quoteToken }: (typeof loaded)[number]) => {
+        const key = `${router}:${baseToken.address}:${quoteToken.address}`.toLowerCase();
+        if (!spotPrices.has(key)) {
+          spotPrices.set(
+            key,
+            getMarketPrice(
+              publicClient,
+              { baseToken: baseToken.address, quoteToken: quoteToken.address, router },
+              baseToken.decimals
+            ).catch(() => null)
+          );
+        }
+        return spotPrices.get(key) as Promise<bigint | null>;
+      };
+
+      return Promise.all(
+        loaded.map(async (strategy) => {
+          const spotPrice = await spotPriceOf(strategy);
+          const key = strategy.vault.toLowerCase();
+
+          return {
+            vault: strategy.vault,
+            owner: strategy.owner,
+            baseToken: strategy.baseToken,
+            quoteToken: strategy.quoteToken,
+            config: strategy.config,
+            spotPrice,
+            ...strategyMetrics(fillsByVault.get(key) ?? [], {
+              baseDecimals: strategy.baseToken.decimals,
+              intervalSeconds: strategy.config.intervalSeconds,
+              spotPrice: spotPrice ?? 0n,
+              copyCount: copyCounts.get(key) ?? 0,
+              now: block.timestamp,
+            }),
+          };
+        })
+      );
+    },
+    enabled: CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
+    refetchInterval: 60000,
+  });
+}
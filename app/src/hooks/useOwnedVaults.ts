@@ -0,0 +1,71 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import type { Address, PublicClient } from 'viem';
+
+import { CONTRACT_ADDRESSES, MICRO_DCA_VAULT_ABI, type TokenInfo, type VaultConfig } from '@/lib/contracts';
+import { fetchTokenInfo } from '@/lib/tokens';
+import { fetchAllVaults } from '@/lib/vaults';
+import { toVaultConfig } from '@/hooks/useVaultInfo';
+
+export interface OwnedVault {
+  vault: Address;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+  config: VaultConfig;
+}
+
+async function readVaultConfig(publicClient: PublicClient, vault: Address): Promise<VaultConfig> {
+  const config = (await publicClient.readContract({
+    address: vault,
+    abi: MICRO_DCA_VAULT_ABI,
+    functionName: 'getConfig',
+  })) as readonly [bigint, bigint, bigint, bigint, Address, boolean];
+  return toVaultConfig(config);
+}
+
+async function readOwnedVault(publicClient: PublicClient, vault: Address, account: Address) {
+  const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+
+  // Ownership can be transferred, so check the current owner rather than factory events
+  const owner = await publicClient.readContract({ ...contract, functionName: 'owner' });
+  if (owner.toLowerCase() !== account.toLowerCase()) return undefined;
+
+  const [baseToken, quoteToken, config] = await Promise.all([
+    publicClient.readContract({ ...contract, functionName: 'baseToken' }),
+    publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+    readVaultConfig(publicClient, vault),
+  ]);
+  const [baseInfo, quoteInfo] = await Promise.all([
+    fetchTokenInfo(publicClient, baseToken),
+    fetchTokenInfo(publicClient, quoteToken),
+  ]);
+
+  return { vault, baseToken: baseInfo, quoteToken: quoteInfo, config };
+}
+
+/**
+ * Every factory vault the account currently owns. Vaults that fail to load are counted
+ * rather than dropped silently, since an emergency stop must not miss one unnoticed
+ */
+export function useOwnedVaults(account: Address | undefined) {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['ownedVaults', account],
+    queryFn: async () => {
+      const vaults = await fetchAllVaults(publicClient);
+      const results = await Promise.allSettled(
+        vaults.map((vault) => readOwnedVault(publicClient, vault, account as Address))
+      );
+
+      const owned: OwnedVault[] = [];
+      let failedCount = 0;
+      for (const result of results) {
+        if (result.status === 'rejected') failedCount++;
+        else if (result.value) owned.push(result.value);
+      }
+      return { vaults: owned, failedCount };
+    },
+    enabled: !!account && CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
+  });
+}
@@ -0,0 +1,94 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { getAbiItem, type Address } from 'viem';
+
+import {
+  CONTRACT_ADDRESSES,
+  MICRO_DCA_VAULT_ABI,
+  VAULT_FACTORY_ABI,
+  type PortfolioPosition,
+} from '@/lib/contracts';
+import { fetchAllVaults } from '@/lib/vaults';
+
+/**
+ * Find every vault the account created, copied or holds shares in
+ */
+export function usePortfolio(account: Address | undefined) {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['portfolio', account],
+    queryFn: async (): Promise<PortfolioPosition[]> => {
+      const user = account as Address;
+
+      const [vaults, createdLogs, copiedLogs] = await Promise.all([
+        fetchAllVaults(publicClient),
+        // creator is not indexed on VaultCreated, so filter client-side
+        publicClient.getLogs({
+          address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+          event: getAbiItem({ abi: VAULT_FACTORY_ABI, name: 'VaultCreated' }),
+          fromBlock: 'earliest',
+        }),
+        publicClient.getLogs({
+          address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+          event: getAbiItem({ abi: VAULT_FACTORY_ABI, name: 'VaultCopied' }),
+          args: { creator: user },
+          fromBlock: 'earliest',
+        }),
+      ]);
+
+      const created = new Set(
+        createdLogs
+          .filter((log) => log.args.creator?.toLowerCase() === user.toLowerCase())
+          .map((log) => (log.args.vault as Address).toLowerCase())
+      );
+      const copied = new Set(copiedLogs.map((log) => (log.args.copy as Address).toLowerCase()));
+
+      const balances = await Promise.all(
+        vaults.map((vault) =>
+          publicClient.readContract({
+            address: vault,
+            abi: MICRO_DCA_VAULT_ABI,
+            functionName: 'balanceOf',
+            args: [user],
+          })
+        )
+      );
+
+      const relevant = vaults
+        .map((vault, i) => ({ vault, shares: balances[i] ?? 0n }))
+        .filter(({ vault, shares }) =>
+          shares > 0n || created.has(vault.toLowerCase()) || copied.has(vault.toLowerCase())
+        );
+
+      return Promise.all(
+        relevant.map(async ({ vault, shares }) => {
+          const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+
+          const [baseToken, quoteToken, owner, redeemValue, totalSupply, totalFilledBase] =
+            await Promise.all([
+              publicClient.readContract({ ...contract, functionName: 'baseToken' }),
+              publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+              publicClient.readContract({ ...contract, functionName: 'owner' }),
+              publicClient.readContract({ ...contract, functionName: 'previewRedeem', args: [shares] }),
+              publicClient.readContract({ ...contract, functionName: 'totalSupply' }),
+              publicClient.readContract({ ...contract, functionName: 'totalFilledBase' }),
+            ]);
+
+          return {
+            vault,
+            baseToken,
+            quoteToken,
+            owner,
+            shares,
+            redeemValue,
+            baseShare: totalSupply > 0n ? (totalFilledBase * shares) / totalSupply : 0n,
+            isCreator: created.has(vault.toLowerCase()),
+            isCopier: copied.has(vault.toLowerCase()),
+          };
+        })
+      );
+    },
+    enabled: !!account && CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
+  });
+}
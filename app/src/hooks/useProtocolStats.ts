@@ -0,0 +1,105 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { getAbiItem, type Address, type PublicClient } from 'viem';
+
+import {
+  CONTRACT_ADDRESSES,
+  MICRO_DCA_VAULT_ABI,
+  type ProtocolStats,
+  type QuoteTokenTotals,
+} from '@/lib/contracts';
+import { INDEXER_API_URL, fetchIndexerStats } from '@/lib/indexer';
+import { fetchAllVaults } from '@/lib/vaults';
+
+const DAY_SECONDS = 24n * 60n * 60n;
+
+async function readVaultTotals(publicClient: PublicClient, vault: Address) {
+  const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+
+  const [quoteToken, config, totalAssets, totalFilledQuote] = await Promise.all([
+    publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+    publicClient.readContract({ ...contract, functionName: 'getConfig' }) as Promise<
+      readonly [bigint, bigint, bigint, bigint, Address, boolean]
+    >,
+    publicClient.readContract({ ...contract, functionName: 'totalAssets' }),
+    publicClient.readContract({ ...contract, functionName: 'totalFilledQuote' }),
+  ]);
+
+  return { quoteToken, paused: config[5], totalAssets, totalFilledQuote };
+}
+
+/**
+ * Count Fill events from the last 24 hours, preferring the indexer when one is configured
+ */
+async function countRecentFills(publicClient: PublicClient, vaults: Address[]): Promise<number> {
+  if (INDEXER_API_URL) {
+    try {
+      return (await fetchIndexerStats()).fills24h;
+    } catch (error) {
+      console.warn('Indexer unavailable, counting fills from RPC', error);
+    }
+  }
+
+  if (vaults.length === 0) return 0;
+
+  const [block, logs] = await Promise.all([
+    publicClient.getBlock(),
+    publicClient.getLogs({
+      address: vaults,
+      event: getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'Fill' }),
+      fromBlock: 'earliest',
+    }),
+  ]);
+
+  const since = block.timestamp - DAY_SECONDS;
+  return logs.filter((log) => (log.args.ts ?? 0n) >= since).length;
+}
+
+/**
+ * Aggregate protocol-wide metrics across every factory vault. Vaults that fail to
+ * load are left out and reported through loadedVaultCount rather than failing the query
+ */
+export function useProtocolStats() {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['protocolStats'],
+    queryFn: async (): Promise<ProtocolStats> => {
+      const vaults = await fetchAllVaults(publicClient);
+
+      const [results, fills24h] = await Promise.all([
+        Promise.allSettled(vaults.map((vault) => readVaultTotals(publicClient, vault))),
+        countRecentFills(publicClient, vaults).catch(() => null),
+      ]);
+
+      const totals = new Map<string, QuoteTokenTotals>();
+      let loadedVaultCount = 0;
+      let pausedCount = 0;
+
+      for (const result of results) {
+        if (result.status === 'rejected') continue;
+        const { quoteToken, paused, totalAssets, totalFilledQuote } = result.value;
+
+        loadedVaultCount++;
+        if (paused) pausedCount++;
+
+        const key = quoteToken.toLowerCase();
+        const entry = totals.get(key) ?? { quoteToken, totalFilledQuote: 0n, totalAssets: 0n };
+        entry.totalFilledQuote += totalFilledQuote;
+        entry.totalAssets += totalAssets;
+        totals.set(key, entry);
+      }
+
+      return {
+        vaultCount: vaults.length,
+        loadedVaultCount,
+        totals: Array.from(totals.values()),
+        activeCount: loadedVaultCount - pausedCount,
+        pausedCount,
+        fills24h,
+      };
+    },
+    enabled: CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
+    refetchInterval: 30000,
+  });
+}
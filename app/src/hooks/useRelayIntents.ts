@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Address } from 'viem';
+
+import { fetchRelayIntents } from '@/lib/relay';
+
+/**
+ * Poll the relayer for the intents a signer has handed to it
+ */
+export function useRelayIntents(signer: Address | undefined) {
+  return useQuery({
+    queryKey: ['relayIntents', signer],
+    queryFn: () => fetchRelayIntents(signer as Address),
+    enabled: !!signer,
+    refetchInterval: 5000,
+  });
+}
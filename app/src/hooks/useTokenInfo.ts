@@ -0,0 +1,47 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+
+import type { TokenInfo } from '@/lib/contracts';
+import { fetchTokenInfo, getCachedTokenInfo } from '@/lib/tokens';
+
+/**
+ * Load decimals, symbol and name for a single token
+ */
+export function useTokenInfo(address: Address | undefined) {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['token', address?.toLowerCase()],
+    queryFn: () => fetchTokenInfo(publicClient, address as Address),
+    initialData: address ? getCachedTokenInfo(address) : undefined,
+    staleTime: Infinity,
+    enabled: !!address,
+  });
+}
+
+/**
+ * Load metadata for several tokens at once, keyed by lowercased address
+ */
+export function useTokenInfos(addresses: Address[]) {
+  const publicClient = usePublicClient();
+
+  const results = useQueries({
+    queries: addresses.map((address) => ({
+      queryKey: ['token', address.toLowerCase()],
+      queryFn: () => fetchTokenInfo(publicClient, address),
+      initialData: getCachedTokenInfo(address),
+      staleTime: Infinity,
+    })),
+  });
+
+  const tokens = new Map<string, TokenInfo>();
+  results.forEach((result) => {
+    if (result.data) tokens.set(result.data.address.toLowerCase(), result.data);
+  });
+
+  return {
+    tokens,
+    isLoading: results.some((result) => result.isLoading),
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import type { TokenInfo } from '@/lib/contracts';
+import {
+  TOKEN_LIST_URL,
+  fetchTokenList,
+  loadCustomTokens,
+  saveCustomToken,
+  type ListedToken,
+} from '@/lib/tokenList';
+import { somnia } from '@/lib/wagmi';
+
+/**
+ * Tokens from the configured list for the app's chain, followed by the user's imports
+ */
+export function useTokenList() {
+  const [customTokens, setCustomTokens] = useState<ListedToken[]>([]);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setCustomTokens(loadCustomTokens());
+  }, []);
+
+  const { data: listTokens, isLoading, isError } = useQuery({
+    queryKey: ['tokenList', TOKEN_LIST_URL, somnia.id],
+    queryFn: () => fetchTokenList(TOKEN_LIST_URL, somnia.id),
+    enabled: !!TOKEN_LIST_URL,
+    staleTime: Infinity,
+  });
+
+  const listed = new Set((listTokens || []).map((token) => token.address.toLowerCase()));
+  const tokens = [
+    ...(listTokens || []),
+    ...customTokens.filter((token) => !listed.has(token.address.toLowerCase())),
+  ];
+
+  return {
+    tokens,
+    isLoading: !!TOKEN_LIST_URL && isLoading,
+    isError,
+    importToken: (token: TokenInfo) => setCustomTokens(saveCustomToken(token)),
+  };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+
+import type { VaultInfo } from '@/lib/contracts';
+import { fetchVaultAssets } from '@/lib/priceSource';
+
+type VaultRef = Pick<VaultInfo, 'address' | 'baseToken' | 'quoteToken' | 'totalAssets'>;
+
+/**
+ * Quote and base holdings of a vault, with the base leg valued by its price source
+ */
+export function useVaultAssets(vault: VaultRef | undefined) {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    // totalAssets changes with every deposit, withdrawal and fill, so it keys the refetch
+    queryKey: ['vaultAssets', vault?.address.toLowerCase(), vault?.totalAssets.toString()],
+    queryFn: () => fetchVaultAssets(publicClient, vault as VaultRef),
+    enabled: !!vault,
+  });
+}
@@ -0,0 +1,80 @@
+import { useContractReads } from 'wagmi';
+import type { Address } from 'viem';
+
+import { MICRO_DCA_VAULT_ABI, type PendingConfig, type VaultConfig, type VaultInfo } from '@/lib/contracts';
+
+/**
+ * Read the full on-chain state of a single vault
+ */
+export function useVaultInfo(address: Address | undefined, watch: boolean = true) {
+  const { data, isLoading, isError, refetch } = useContractReads({
+    contracts: [
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'getConfig' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'baseToken' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'quoteToken' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'owner' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'totalAssets' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'totalFilledQuote' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'totalFilledBase' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'lastExec' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'nextExecTime' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'guardian' },
+      { address, abi: MICRO_DCA_VAULT_ABI, functionName: 'getPendingConfig' },
+    ],
+    enabled: !!address,
+    watch,
+  });
+
+  const failed = !data || data.some((d) => d.status === 'failure');
+
+  let vault: VaultInfo | undefined;
+  if (address && !failed) {
+    const config = data[0]?.result as readonly [bigint, bigint, bigint, bigint, Address, boolean];
+    const pending = data[10]?.result as readonly [bigint, bigint, Address, bigint];
+    vault = {
+      address,
+      config: toVaultConfig(config),
+      baseToken: data[1]?.result as Address,
+      quoteToken: data[2]?.result as Address,
+      owner: data[3]?.result as Address,
+      guardian: data[9]?.result as Address,
+      totalAssets: data[4]?.result as bigint,
+      totalFilledQuote: data[5]?.result as bigint,
+      totalFilledBase: data[6]?.result as bigint,
+      lastExec: data[7]?.result as bigint,
+      nextExecTime: data[8]?.result as bigint,
+      pendingConfig: toPendingConfig(pending),
+    };
+  }
+
+  return {
+    vault,
+    isLoading,
+    isError: isError || (!isLoading && !!address && failed),
+    refetch,
+  };
+}
+
+/**
+ * Convert the positional getPendingConfig() tuple, or undefined when nothing is queued
+ */
+function toPendingConfig(pending: readonly [bigint, bigint, Address, bigint]): PendingConfig | undefined {
+  if (pending[3] === 0n) return undefined;
+  return { maxSlippageBps: pending[0], feeBps: pending[1], keeper: pending[2], eta: pending[3] };
+}
+
+/**
+ * Convert the positional getConfig() tuple into a VaultConfig
+ */
+export function toVaultConfig(
+  config: readonly [bigint, bigint, bigint, bigint, Address, boolean]
+): VaultConfig {
+  return {
+    intervalSeconds: config[0],
+    maxSlippageBps: config[1],
+    perCycleQuoteCap: config[2],
+    feeBps: config[3],
+    keeper: config[4],
+    paused: config[5],
+  };
+}
@@ -0,0 +1,136 @@
+import { useQuery } from '@tanstack/react-query';
+import { useContractReads, usePublicClient } from 'wagmi';
+import { zeroAddress, type Address, type PublicClient } from 'viem';
+
+import { CONTRACT_ADDRESSES, MICRO_DCA_VAULT_ABI, VAULT_FACTORY_ABI } from '@/lib/contracts';
+
+export interface LineageNode {
+  vault: Address;
+  owner: Address | null;
+  children: LineageNode[];
+}
+
+export interface VaultLineage {
+  root: LineageNode;
+  // Source chain from the root down to the vault's direct source
+  ancestors: Address[];
+  // Set when the tree was cut off at MAX_LINEAGE_NODES
+  truncated: boolean;
+}
+
+// Bounds the RPC work for very popular strategies
+const MAX_LINEAGE_DEPTH = 32;
+const MAX_LINEAGE_NODES = 200;
+
+/**
+ * Direct source and copy count of a vault, as recorded by the factory
+ */
+export function useVaultLineage(address: Address | undefined) {
+  const { data, isLoading } = useContractReads({
+    contracts: [
+      {
+        address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+        abi: VAULT_FACTORY_ABI,
+        functionName: 'sourceOf',
+        args: [address as Address],
+      },
+      {
+        address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+        abi: VAULT_FACTORY_ABI,
+        functionName: 'getCopyCount',
+        args: [address as Address],
+      },
+    ],
+    enabled: !!address,
+  });
+
+  const source = data?.[0]?.result as Address | undefined;
+
+  return {
+    source: source && source !== zeroAddress ? source : undefined,
+    copyCount: data?.[1]?.status === 'success' ? Number(data[1].result) : undefined,
+    isLoading,
+  };
+}
+
+async function readOwner(publicClient: PublicClient, vault: Address): Promise<Address | null> {
+  try {
+    return await publicClient.readContract({ address: vault, abi: MICRO_DCA_VAULT_ABI, functionName: 'owner' });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Walk sourceOf up to the original vault, then copiesOf down from it, one level per round
+ */
+async function fetchLineage(publicClient: PublicClient, vault: Address): Promise<VaultLineage> {
+  const ancestors: Address[] = [];
+  let current = vault;
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH; depth++) {
+    const source = await publicClient.readContract({
+      address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+      abi: VAULT_FACTORY_ABI,
+      functionName: 'sourceOf',
+      args: [current],
+    });
+    if (source === zeroAddress) break;
+    ancestors.unshift(source);
+    current = source;
+  }
+
+  const root: LineageNode = { vault: current, owner: null, children: [] };
+  const nodes = [root];
+  let level = [root];
+  let truncated = false;
+
+  while (level.length > 0) {
+    const branches = await Promise.all(
+      level.map(async (node) => ({
+        node,
+        copies: await publicClient.readContract({
+          address: CONTRACT_ADDRESSES.VAULT_FACTORY,
+          abi: VAULT_FACTORY_ABI,
+          functionName: 'copiesOf',
+          args: [node.vault],
+        }),
+      }))
+    );
+
+    const next: LineageNode[] = [];
+    for (const { node, copies } of branches) {
+      for (const copy of copies) {
+        if (nodes.length >= MAX_LINEAGE_NODES) {
+          truncated = true;
+          break;
+        }
+        const child: LineageNode = { vault: copy, owner: null, children: [] };
+        node.children.push(child);
+        nodes.push(child);
+        next.push(child);
+      }
+    }
+    level = next;
+  }
+
+  await Promise.all(
+    nodes.map(async (node) => {
+      node.owner = await readOwner(publicClient, node.vault);
+    })
+  );
+
+  return { root, ancestors, truncated };
+}
+
+/**
+ * Full copy tree that a vault belongs to, rooted at the original strategy
+ */
+export function useLineageTree(address: Address | undefined) {
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['lineage', address?.toLowerCase()],
+    queryFn: () => fetchLineage(publicClient, address as Address),
+    enabled: !!address,
+  });
+}
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+
+import { computePerformance } from '@/lib/analytics';
+import { MICRO_DCA_VAULT_ABI, type FillRecord, type TokenInfo, type VaultInfo } from '@/lib/contracts';
+import { getMarketPrice } from '@/lib/quote';
+
+/**
+ * Value a vault's fill history at the current price on the vault's own router
+ */
+export function useVaultPerformance(
+  vault: VaultInfo | undefined,
+  fills: FillRecord[] | undefined,
+  baseToken: TokenInfo | undefined
+) {
+  const publicClient = usePublicClient();
+
+  const { data: marketPrice, isLoading, isError } = useQuery({
+    queryKey: ['marketPrice', vault?.address],
+    queryFn: async () => {
+      const { address, baseToken: base, quoteToken: quote } = vault as VaultInfo;
+      const router = await publicClient.readContract({
+        address,
+        abi: MICRO_DCA_VAULT_ABI,
+        functionName: 'router',
+      });
+      return getMarketPrice(
+        publicClient,
+        { baseToken: base, quoteToken: quote, router },
+        (baseToken as TokenInfo).decimals
+      );
+    },
+    enabled: !!vault && !!baseToken,
+    refetchInterval: 30000,
+  });
+
+  const performance =
+    fills && baseToken && marketPrice !== undefined
+      ? computePerformance(fills, baseToken.decimals, marketPrice)
+      : undefined;
+
+  return { performance, marketPrice, isLoading, isError };
+}
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseUnits, type Hash } from 'viem';
+
+import { averageEntryPrice, computePerformance, returnBps, summarizeFills, valueAtPrice } from './analytics';
+import type { FillRecord } from './contracts';
+
+const HASH = `0x${'00'.repeat(32)}` as Hash;
+
+function fill(ts: number, quoteIn: bigint, baseOut: bigint): FillRecord {
+  return { ts: BigInt(ts), quoteIn, baseOut, blockNumber: BigInt(ts), transactionHash: HASH };
+}
+
+// 18-decimal base bought with a 6-decimal quote, e.g. WETH/USDC
+const usdc = (amount: string) => parseUnits(amount, 6);
+const weth = (amount: string) => parseUnits(amount, 18);
+
+// Loaded newest first, as the fill history hook returns them
+const FILLS = [fill(200, usdc('2000'), weth('0.5')), fill(100, usdc('2000'), weth('1'))];
+
+describe('averageEntryPrice', () => {
+  it('prices an 18-decimal base in 6-decimal quote units', () => {
+    assert.equal(averageEntryPrice(usdc('4000'), weth('1.5'), 18), 2666666666n);
+  });
+
+  it('prices a 6-decimal base in 18-decimal quote units', () => {
+    assert.equal(averageEntryPrice(weth('100'), usdc('2'), 6), weth('50'));
+  });
+
+  it('is null before any base has been received', () => {
+    assert.equal(averageEntryPrice(usdc('100'), 0n, 18), null);
+  });
+});
+
+describe('valueAtPrice', () => {
+  it('values base in quote units across mixed decimals', () => {
+    assert.equal(valueAtPrice(weth('1.5'), usdc('3000'), 18), usdc('4500'));
+    assert.equal(valueAtPrice(usdc('2'), weth('50'), 6), weth('100'));
+  });
+
+  it('is zero for no base', () => {
+    assert.equal(valueAtPrice(0n, usdc('3000'), 18), 0n);
+  });
+});
+
+describe('returnBps', () => {
+  it('returns gains and losses in basis points', () => {
+    assert.equal(returnBps(usdc('500'), usdc('4000')), 1250n);
+    assert.equal(returnBps(-usdc('250'), usdc('1000')), -2500n);
+  });
+
+  it('is null when nothing was spent', () => {
+    assert.equal(returnBps(0n, 0n), null);
+  });
+});
+
+describe('summarizeFills', () => {
+  it('totals fills and picks the oldest as the first fill', () => {
+    const summary = summarizeFills(FILLS, 18);
+
+    assert.equal(summary.fillCount, 2);
+    assert.equal(summary.costBasis, usdc('4000'));
+    assert.equal(summary.baseAcquired, weth('1.5'));
+    assert.equal(summary.averageEntryPrice, 2666666666n);
+    assert.equal(summary.firstFill?.ts, 100n);
+  });
+
+  it('handles an empty history', () => {
+    assert.deepEqual(summarizeFills([], 18), {
+      fillCount: 0,
+      costBasis: 0n,
+      baseAcquired: 0n,
+      averageEntryPrice: null,
+      firstFill: null,
+    });
+  });
+
+  it('leaves the average unset when fills returned no base', () => {
+    const summary = summarizeFills([fill(100, usdc('100'), 0n)], 18);
+
+    assert.equal(summary.costBasis, usdc('100'));
+    assert.equal(summary.averageEntryPrice, null);
+  });
+});
+
+describe('computePerformance', () => {
+  it('compares dollar-cost averaging against a lump sum at the first fill price', () => {
+    const performance = computePerformance(FILLS, 18, usdc('3000'));
+
+    assert.equal(performance.currentValue, usdc('4500'));
+    assert.equal(performance.unrealizedPnl, usdc('500'));
+    assert.equal(performance.unrealizedPnlBps, 1250n);
+
+    // 4000 USDC at the first fill's 2000 USDC/WETH buys 2 WETH
+    assert.equal(performance.lumpSumBase, weth('2'));
+    assert.equal(performance.lumpSumValue, usdc('6000'));
+    assert.equal(performance.lumpSumPnl, usdc('2000'));
+    assert.equal(performance.lumpSumPnlBps, 5000n);
+    assert.equal(performance.vsLumpSum, -usdc('1500'));
+  });
+
+  it('reports DCA ahead of the lump sum when the price fell after the first fill', () => {
+    const fills = [fill(100, usdc('2000'), weth('1')), fill(200, usdc('2000'), weth('2'))];
+    const performance = computePerformance(fills, 18, usdc('1000'));
+
+    assert.equal(performance.currentValue, usdc('3000'));
+    assert.equal(performance.lumpSumValue, usdc('2000'));
+    assert.equal(performance.vsLumpSum, usdc('1000'));
+  });
+
+  it('handles a 6-decimal base priced in an 18-decimal quote', () => {
+    const performance = computePerformance([fill(100, weth('100'), usdc('2'))], 6, weth('60'));
+
+    assert.equal(performance.averageEntryPrice, weth('50'));
+    assert.equal(performance.currentValue, weth('120'));
+    assert.equal(performance.unrealizedPnlBps, 2000n);
+    assert.equal(performance.lumpSumBase, usdc('2'));
+    assert.equal(performance.vsLumpSum, 0n);
+  });
+
+  it('is empty but defined without fills', () => {
+    const performance = computePerformance([], 18, usdc('3000'));
+
+    assert.equal(performance.currentValue, 0n);
+    assert.equal(performance.unrealizedPnl, 0n);
+    assert.equal(performance.unrealizedPnlBps, null);
+    assert.equal(performance.lumpSumBase, 0n);
+    assert.equal(performance.lumpSumPnlBps, null);
+    assert.equal(performance.vsLumpSum, 0n);
+  });
+
+  it('counts a fill with zero baseOut as a full loss and no lump-sum base', () => {
+    const performance = computePerformance([fill(100, usdc('100'), 0n)], 18, usdc('3000'));
+
+    assert.equal(performance.currentValue, 0n);
+    assert.equal(performance.unrealizedPnl, -usdc('100'));
+    assert.equal(performance.unrealizedPnlBps, -10000n);
+    assert.equal(performance.lumpSumBase, 0n);
+    assert.equal(performance.vsLumpSum, 0n);
+  });
+});
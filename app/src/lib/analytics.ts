@@ -0,0 +1,231 @@
+import { parseUnits } from 'viem';
+
+import type { FillRecord } from './contracts';
+
+// Prices are bigint quote-token units paid per one whole base token (10^baseDecimals),
+// so they can be shown with formatTokenAmount(price, quoteDecimals)
+
+export interface FillSummary {
+  fillCount: number;
+  // Total quote spent across all fills
+  costBasis: bigint;
+  // Total base received, net of protocol fees
+  baseAcquired: bigint;
+  // Volume-weighted: costBasis / baseAcquired; null before any base has been received
+  averageEntryPrice: bigint | null;
+  firstFill: FillRecord | null;
+}
+
+export interface CumulativeFillPoint {
+  ts: bigint;
+  price: bigint | null;
+  costBasis: bigint;
+  baseAcquired: bigint;
+  averageEntryPrice: bigint | null;
+}
+
+export interface VaultPerformance extends FillSummary {
+  marketPrice: bigint;
+  currentValue: bigint;
+  unrealizedPnl: bigint;
+  unrealizedPnlBps: bigint | null;
+  // Spending the whole cost basis at the first fill's price instead
+  lumpSumBase: bigint;
+  lumpSumValue: bigint;
+  lumpSumPnl: bigint;
+  lumpSumPnlBps: bigint | null;
+  // Positive when dollar-cost averaging beat the lump-sum buy
+  vsLumpSum: bigint;
+}
+
+function unit(decimals: number): bigint {
+  return parseUnits('1', decimals);
+}
+
+/**
+ * Price paid on a single fill
+ */
+export function fillPrice(fill: Pick<FillRecord, 'quoteIn' | 'baseOut'>, baseDecimals: number): bigint | null {
+  if (fill.baseOut === 0n) return null;
+  return (fill.quoteIn * unit(baseDecimals)) / fill.baseOut;
+}
+
+/**
+ * Volume-weighted average price for a quote spend and base receipt
+ */
+export function averageEntryPrice(costBasis: bigint, baseAcquired: bigint, baseDecimals: number): bigint | null {
+  if (baseAcquired === 0n) return null;
+  return (costBasis * unit(baseDecimals)) / baseAcquired;
+}
+
+/**
+ * Quote value of `baseAmount` at `price`
+ */
+export function valueAtPrice(baseAmount: bigint, price: bigint, baseDecimals: number): bigint {
+  return (baseAmount * price) / unit(baseDecimals);
+}
+
+/**
+ * Return on `cost` in basis points; null when nothing was spent
+ */
+export function returnBps(pnl: bigint, cost: bigint): bigint | null {
+  if (cost === 0n) return null;
+  return (pnl * 10_000n) / cost;
+}
+
+/**
+ * Sort fills oldest first. Fill history is loaded newest first
+ */
+export function sortFillsAscending(fills: FillRecord[]): FillRecord[] {
+  return [...fills].sort((a, b) =>
+    a.ts === b.ts ? (a.blockNumber < b.blockNumber ? -1 : 1) : a.ts < b.ts ? -1 : 1
+  );
+}
+
+/**
+ * Cost basis, base acquired and average entry price across a vault's fills
+ */
+export function summarizeFills(fills: FillRecord[], baseDecimals: number): FillSummary {
+  let costBasis = 0n;
+  let baseAcquired = 0n;
+  for (const fill of fills) {
+    costBasis += fill.quoteIn;
+    baseAcquired += fill.baseOut;
+  }
+
+  return {
+    fillCount: fills.length,
+    costBasis,
+    baseAcquired,
+    averageEntryPrice: averageEntryPrice(costBasis, baseAcquired, baseDecimals),
+    firstFill: sortFillsAscending(fills)[0] ?? null,
+  };
+}
+
+/**
+ * Running totals after each fill, oldest first
+ */
+export function cumulativeFills(fills: FillRecord[], baseDecimals: number): CumulativeFillPoint[] {
+  let costBasis = 0n;
+  let baseAcquired = 0n;
+
+  return sortFillsAscending(fills).map((fill) => {
+    costBasis += fill.quoteIn;
+    baseAcquired += fill.baseOut;
+    return {
+      ts: fill.ts,
+      price: fillPrice(fill, baseDecimals),
+      costBasis,
+      baseAcquired,
+      averageEntryPrice: averageEntryPrice(costBasis, baseAcquired, baseDecimals),
+    };
+  });
+}
+
+/**
+ * Value the acquired base at `marketPrice` and compare against buying it all at the first fill
+ */
+export function computePerformance(
+  fills: FillRecord[],
+  baseDecimals: number,
+  marketPrice: bigint
+): VaultPerformance {
+  const summary = summarizeFills(fills, baseDecimals);
+  const { costBasis, baseAcquired, firstFill } = summary;
+
+  const currentValue = valueAtPrice(baseAcquired, marketPrice, baseDecimals);
+  const unrealizedPnl = currentValue - costBasis;
+
+  const lumpSumBase =
+    firstFill && firstFill.quoteIn > 0n ? (costBasis * firstFill.baseOut) / firstFill.quoteIn : 0n;
+  const lumpSumValue = valueAtPrice(lumpSumBase, marketPrice, baseDecimals);
+  const lumpSumPnl = lumpSumValue - costBasis;
+
+  return {
+    ...summary,
+    marketPrice,
+    currentValue,
+    unrealizedPnl,
+    unrealizedPnlBps: returnBps(unrealizedPnl, costBasis),
+    lumpSumBase,
+    lumpSumValue,
+    lumpSumPnl,
+    lumpSumPnlBps: returnBps(lumpSumPnl, costBasis),
+    vsLumpSum: currentValue - lumpSumValue,
+  };
+}
+
+export interface FillUptime {
+  // Cycles the interval allowed for between the first fill and `now`
+  expectedCycles: number;
+  missedIntervals: number;
+  // fills / expectedCycles, capped at 1; null before the first fill
+  uptime: number | null;
+}
+
+export interface StrategyMetrics {
+  fillCount: number;
+  volume: bigint;
+  averageEntryPrice: bigint | null;
+  // How far the average entry sits below the benchmark price, in bps; negative when above
+  entryImprovementBps: bigint | null;
+  expectedCycles: number;
+  missedIntervals: number;
+  uptime: number | null;
+  copyCount: number;
+}
+
+/**
+ * Compare executed fills with the cycles `intervalSeconds` allowed for since the first
+ * fill. Paused periods count as missed
+ */
+export function fillUptime(fills: FillRecord[], intervalSeconds: bigint, now: bigint): FillUptime {
+  const first = sortFillsAscending(fills)[0];
+  if (!first || intervalSeconds === 0n) {
+    return { expectedCycles: fills.length, missedIntervals: 0, uptime: first ? 1 : null };
+  }
+
+  const elapsed = now > first.ts ? now - first.ts : 0n;
+  const expectedCycles = Number(elapsed / intervalSeconds) + 1;
+  const missedIntervals = Math.max(0, expectedCycles - fills.length);
+
+  return {
+    expectedCycles,
+    missedIntervals,
+    uptime: Math.min(1, fills.length / expectedCycles),
+  };
+}
+
+/**
+ * Improvement of an average entry over a benchmark price in basis points
+ */
+export function entryImprovementBps(averageEntry: bigint | null, benchmarkPrice: bigint): bigint | null {
+  if (averageEntry === null || benchmarkPrice === 0n) return null;
+  return ((benchmarkPrice - averageEntry) * 10_000n) / benchmarkPrice;
+}
+
+/**
+ * Leaderboard metrics for one vault, benchmarked against the current spot price
+ */
+export function strategyMetrics(
+  fills: FillRecord[],
+  params: {
+    baseDecimals: number;
+    intervalSeconds: bigint;
+    spotPrice: bigint;
+    copyCount: number;
+    now: bigint;
+  }
+): StrategyMetrics {
+  const summary = summarizeFills(fills, params.baseDecimals);
+  const uptime = fillUptime(fills, params.intervalSeconds, params.now);
+
+  return {
+    fillCount: summary.fillCount,
+    volume: summary.costBasis,
+    averageEntryPrice: summary.averageEntryPrice,
+    entryImprovementBps: entryImprovementBps(summary.averageEntryPrice, params.spotPrice),
+    ...uptime,
+    copyCount: params.copyCount,
+  };
+}
@@ -1,4 +1,4 @@
-import { Address } from 'viem';
+import { Address, Hash, Hex } from 'viem';
 
 // Contract addresses from environment variables
 export const CONTRACT_ADDRESSES = {
@@ -7,11 +7,120 @@ export const CONTRACT_ADDRESSES = {
   ROUTER: (process.env.NEXT_PUBLIC_ROUTER_ADDRESS || '0x') as Address,
 } as const;
 
+// Custom errors from contracts/src/libraries/Errors.sol
+export const ERRORS_ABI = [
+  { type: 'error', name: 'NotKeeper', inputs: [] },
+  { type: 'error', name: 'IntervalNotElapsed', inputs: [] },
+  { type: 'error', name: 'MaxSlippageExceeded', inputs: [] },
+  { type: 'error', name: 'CapExceeded', inputs: [] },
+  { type: 'error', name: 'Paused', inputs: [] },
+  { type: 'error', name: 'NotPaused', inputs: [] },
+  { type: 'error', name: 'NotGuardian', inputs: [] },
+  { type: 'error', name: 'TimelockNotElapsed', inputs: [] },
+  { type: 'error', name: 'ConfigExpired', inputs: [] },
+  { type: 'error', name: 'NoPendingConfig', inputs: [] },
+  { type: 'error', name: 'UnsupportedPair', inputs: [] },
+  { type: 'error', name: 'InvalidPrice', inputs: [] },
+  { type: 'error', name: 'StalePrice', inputs: [] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+  { type: 'error', name: 'InvalidParams', inputs: [] },
+  { type: 'error', name: 'NotRelayer', inputs: [] },
+  { type: 'error', name: 'MetaTxExpired', inputs: [] },
+] as const;
+
+// OpenZeppelin v5 errors the vault, factory and relayer can bubble up
+export const OPENZEPPELIN_ERRORS_ABI = [
+  {
+    type: 'error',
+    name: 'OwnableUnauthorizedAccount',
+    inputs: [{ name: 'account', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'OwnableInvalidOwner',
+    inputs: [{ name: 'owner', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientBalance',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      { name: 'balance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientAllowance',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'allowance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'ERC20InvalidReceiver',
+    inputs: [{ name: 'receiver', type: 'address' }],
+  },
+  {
+    type: 'error',
+    name: 'ERC4626ExceededMaxDeposit',
+    inputs: [
+      { name: 'receiver', type: 'address' },
+      { name: 'assets', type: 'uint256' },
+      { name: 'max', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'ERC4626ExceededMaxWithdraw',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'assets', type: 'uint256' },
+      { name: 'max', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'ERC4626ExceededMaxRedeem',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'shares', type: 'uint256' },
+      { name: 'max', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'SafeERC20FailedOperation',
+    inputs: [{ name: 'token', type: 'address' }],
+  },
+  { type: 'error', name: 'ReentrancyGuardReentrantCall', inputs: [] },
+  { type: 'error', name: 'ECDSAInvalidSignature', inputs: [] },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignatureLength',
+    inputs: [{ name: 'length', type: 'uint256' }],
+  },
+  {
+    type: 'error',
+    name: 'ECDSAInvalidSignatureS',
+    inputs: [{ name: 's', type: 'bytes32' }],
+  },
+] as const;
+
+// Every custom error a write to these contracts can revert with
+export const CONTRACT_ERRORS_ABI = [...ERRORS_ABI, ...OPENZEPPELIN_ERRORS_ABI] as const;
+
 // VaultFactory ABI
 export const VAULT_FACTORY_ABI = [
   {
     type: 'constructor',
-    inputs: [{ name: '_router', type: 'address' }],
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: '_router', type: 'address' },
+      { name: '_priceSource', type: 'address' },
+    ],
   },
   {
     type: 'function',
@@ -35,6 +144,20 @@ export const VAULT_FACTORY_ABI = [
     inputs: [{ name: 'src', type: 'address' }],
     outputs: [{ name: 'vault', type: 'address' }],
   },
+  {
+    type: 'function',
+    name: 'copyVaultWithOverrides',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'src', type: 'address' },
+      { name: 'intervalSeconds', type: 'uint256' },
+      { name: 'maxSlippageBps', type: 'uint256' },
+      { name: 'perCycleQuoteCap', type: 'uint256' },
+      { name: 'feeBps', type: 'uint256' },
+      { name: 'keeper', type: 'address' },
+    ],
+    outputs: [{ name: 'vault', type: 'address' }],
+  },
   {
     type: 'function',
     name: 'getAllVaults',
@@ -62,6 +185,34 @@ export const VAULT_FACTORY_ABI = [
     inputs: [{ name: '', type: 'address' }],
     outputs: [{ name: '', type: 'bool' }],
   },
+  {
+    type: 'function',
+    name: 'priceSource',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'sourceOf',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'address' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'copiesOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'vault', type: 'address' }],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    type: 'function',
+    name: 'getCopyCount',
+    stateMutability: 'view',
+    inputs: [{ name: 'vault', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
   {
     type: 'event',
     name: 'VaultCreated',
@@ -81,6 +232,7 @@ export const VAULT_FACTORY_ABI = [
       { name: 'creator', type: 'address', indexed: true },
     ],
   },
+  ...CONTRACT_ERRORS_ABI,
 ] as const;
 
 // MicroDcaVault ABI
@@ -118,6 +270,30 @@ export const MICRO_DCA_VAULT_ABI = [
     ],
     outputs: [{ name: 'assets', type: 'uint256' }],
   },
+  {
+    type: 'function',
+    name: 'redeemInKind',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'shares', type: 'uint256' },
+      { name: 'receiver', type: 'address' },
+      { name: 'shareOwner', type: 'address' },
+    ],
+    outputs: [
+      { name: 'quoteOut', type: 'uint256' },
+      { name: 'baseOut', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'previewRedeemInKind',
+    stateMutability: 'view',
+    inputs: [{ name: 'shares', type: 'uint256' }],
+    outputs: [
+      { name: 'quoteOut', type: 'uint256' },
+      { name: 'baseOut', type: 'uint256' },
+    ],
+  },
   {
     type: 'function',
     name: 'totalAssets',
@@ -132,6 +308,13 @@ export const MICRO_DCA_VAULT_ABI = [
     inputs: [{ name: 'account', type: 'address' }],
     outputs: [{ name: '', type: 'uint256' }],
   },
+  {
+    type: 'function',
+    name: 'totalSupply',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
   {
     type: 'function',
     name: 'previewDeposit',
@@ -146,7 +329,35 @@ export const MICRO_DCA_VAULT_ABI = [
     inputs: [{ name: 'shares', type: 'uint256' }],
     outputs: [{ name: '', type: 'uint256' }],
   },
+  {
+    type: 'function',
+    name: 'previewWithdraw',
+    stateMutability: 'view',
+    inputs: [{ name: 'assets', type: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'maxWithdraw',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'maxRedeem',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
   // Custom DCA functions
+  {
+    type: 'function',
+    name: 'previewCycleOut',
+    stateMutability: 'view',
+    inputs: [{ name: 'quoteAmount', type: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
   {
     type: 'function',
     name: 'executeCycle',
@@ -158,6 +369,81 @@ export const MICRO_DCA_VAULT_ABI = [
     ],
     outputs: [{ name: 'baseOut', type: 'uint256' }],
   },
+  {
+    type: 'function',
+    name: 'setConfig',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: '_intervalSeconds', type: 'uint256' },
+      { name: '_maxSlippageBps', type: 'uint256' },
+      { name: '_perCycleQuoteCap', type: 'uint256' },
+      { name: '_feeBps', type: 'uint256' },
+      { name: '_keeper', type: 'address' },
+      { name: '_paused', type: 'bool' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'applyConfig',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'cancelConfig',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'getPendingConfig',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'maxSlippageBps', type: 'uint256' },
+      { name: 'feeBps', type: 'uint256' },
+      { name: 'keeper', type: 'address' },
+      { name: 'eta', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'CONFIG_DELAY',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'CONFIG_GRACE_PERIOD',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'setGuardian',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: '_guardian', type: 'address' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'pause',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'unpause',
+    stateMutability: 'nonpayable',
+    inputs: [],
+    outputs: [],
+  },
   {
     type: 'function',
     name: 'getConfig',
@@ -186,6 +472,20 @@ export const MICRO_DCA_VAULT_ABI = [
     inputs: [],
     outputs: [{ name: '', type: 'address' }],
   },
+  {
+    type: 'function',
+    name: 'router',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'priceSource',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
   {
     type: 'function',
     name: 'quoteToken',
@@ -228,6 +528,13 @@ export const MICRO_DCA_VAULT_ABI = [
     inputs: [],
     outputs: [{ name: '', type: 'bool' }],
   },
+  {
+    type: 'function',
+    name: 'guardian',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
   // Events
   {
     type: 'event',
@@ -238,6 +545,129 @@ export const MICRO_DCA_VAULT_ABI = [
       { name: 'baseOut', type: 'uint256', indexed: false },
     ],
   },
+  {
+    type: 'event',
+    name: 'ConfigUpdated',
+    inputs: [
+      { name: 'intervalSeconds', type: 'uint256', indexed: false },
+      { name: 'maxSlippageBps', type: 'uint256', indexed: false },
+      { name: 'perCycleQuoteCap', type: 'uint256', indexed: false },
+      { name: 'feeBps', type: 'uint256', indexed: false },
+      { name: 'keeper', type: 'address', indexed: false },
+      { name: 'paused', type: 'bool', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ConfigQueued',
+    inputs: [
+      { name: 'maxSlippageBps', type: 'uint256', indexed: false },
+      { name: 'feeBps', type: 'uint256', indexed: false },
+      { name: 'keeper', type: 'address', indexed: false },
+      { name: 'eta', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ConfigCancelled',
+    inputs: [],
+  },
+  {
+    type: 'event',
+    name: 'GuardianUpdated',
+    inputs: [
+      { name: 'previousGuardian', type: 'address', indexed: true },
+      { name: 'newGuardian', type: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'VaultPaused',
+    inputs: [{ name: 'account', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'VaultUnpaused',
+    inputs: [{ name: 'account', type: 'address', indexed: true }],
+  },
+  // ERC-4626 events
+  {
+    type: 'event',
+    name: 'Deposit',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'assets', type: 'uint256', indexed: false },
+      { name: 'shares', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Withdraw',
+    inputs: [
+      { name: 'sender', type: 'address', indexed: true },
+      { name: 'receiver', type: 'address', indexed: true },
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'assets', type: 'uint256', indexed: false },
+      { name: 'shares', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'RedeemedInKind',
+    inputs: [
+      { name: 'caller', type: 'address', indexed: true },
+      { name: 'receiver', type: 'address', indexed: true },
+      { name: 'shareOwner', type: 'address', indexed: true },
+      { name: 'shares', type: 'uint256', indexed: false },
+      { name: 'quoteOut', type: 'uint256', indexed: false },
+      { name: 'baseOut', type: 'uint256', indexed: false },
+    ],
+  },
+  ...CONTRACT_ERRORS_ABI,
+] as const;
+
+// DEX Router ABI (UniswapV2-style quoting)
+export const ROUTER_ABI = [
+  {
+    type: 'function',
+    name: 'getAmountsOut',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'path', type: 'address[]' },
+    ],
+    outputs: [{ name: 'amounts', type: 'uint256[]' }],
+  },
+] as const;
+
+// IPriceSource ABI (base holdings valued in quote terms)
+export const PRICE_SOURCE_ABI = [
+  {
+    type: 'function',
+    name: 'getQuote',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'base', type: 'address' },
+      { name: 'quote', type: 'address' },
+      { name: 'baseAmount', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'quoteAmount', type: 'uint256' },
+      { name: 'fresh', type: 'bool' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'isSupported',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'base', type: 'address' },
+      { name: 'quote', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  ...CONTRACT_ERRORS_ABI,
 ] as const;
 
 // ERC-20 ABI (minimal)
@@ -290,6 +720,7 @@ export const ERC20_ABI = [
     inputs: [],
     outputs: [{ name: '', type: 'string' }],
   },
+  ...CONTRACT_ERRORS_ABI,
 ] as const;
 
 // Relayer ABI
@@ -366,6 +797,19 @@ export const RELAYER_ABI = [
       { name: 'isValid', type: 'bool' },
     ],
   },
+  // Events
+  {
+    type: 'event',
+    name: 'MetaTxExecuted',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'vault', type: 'address', indexed: true },
+      { name: 'quoteAmount', type: 'uint256', indexed: false },
+      { name: 'baseOut', type: 'uint256', indexed: false },
+      { name: 'relayerFee', type: 'uint256', indexed: false },
+    ],
+  },
+  ...CONTRACT_ERRORS_ABI,
 ] as const;
 
 // Type definitions
@@ -378,12 +822,23 @@ export interface VaultConfig {
   paused: boolean;
 }
 
+// Time-locked fields queued by setConfig, applicable once `eta` has passed
+export interface PendingConfig {
+  maxSlippageBps: bigint;
+  feeBps: bigint;
+  keeper: Address;
+  eta: bigint;
+}
+
 export interface VaultInfo {
   address: Address;
   baseToken: Address;
   quoteToken: Address;
   owner: Address;
+  guardian: Address;
   config: VaultConfig;
+  // Undefined when no change is queued
+  pendingConfig?: PendingConfig;
   totalAssets: bigint;
   totalFilledQuote: bigint;
   totalFilledBase: bigint;
@@ -391,6 +846,69 @@ export interface VaultInfo {
   nextExecTime: bigint;
 }
 
+export interface FillRecord {
+  ts: bigint;
+  quoteIn: bigint;
+  baseOut: bigint;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+export interface PortfolioPosition {
+  vault: Address;
+  baseToken: Address;
+  quoteToken: Address;
+  owner: Address;
+  shares: bigint;
+  redeemValue: bigint;
+  baseShare: bigint;
+  isCreator: boolean;
+  isCopier: boolean;
+}
+
+export interface QuoteTokenTotals {
+  quoteToken: Address;
+  totalFilledQuote: bigint;
+  totalAssets: bigint;
+}
+
+export interface ProtocolStats {
+  vaultCount: number;
+  // Vaults whose state could be read; the rest are missing from every total
+  loadedVaultCount: number;
+  totals: QuoteTokenTotals[];
+  activeCount: number;
+  pausedCount: number;
+  // null when Fill events could not be loaded
+  fills24h: number | null;
+}
+
+export interface ExecuteCycleMessage {
+  vault: Address;
+  quoteAmount: bigint;
+  minOut: bigint;
+  beneficiary: Address;
+  deadline: bigint;
+  nonce: bigint;
+}
+
+export type RelayIntentStatus = 'queued' | 'submitted' | 'executed' | 'failed' | 'expired' | 'cancelled';
+
+/**
+ * An intent as the relayer API reports it; the signature never leaves the relayer,
+ * since anyone holding it could submit the cycle themselves
+ */
+export interface RelayIntent {
+  id: string;
+  signer: Address;
+  message: ExecuteCycleMessage;
+  status: RelayIntentStatus;
+  createdAt: number;
+  updatedAt: number;
+  transactionHash?: Hash;
+  error?: string;
+}
+
 export interface TokenInfo {
   address: Address;
   name: string;
@@ -0,0 +1,96 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+} from 'viem';
+
+import type { CONTRACT_ERRORS_ABI } from './contracts';
+
+export type ContractErrorName = (typeof CONTRACT_ERRORS_ABI)[number]['name'];
+
+export type DecodedContractError =
+  | { kind: 'custom'; name: ContractErrorName; args: readonly unknown[]; message: string }
+  | { kind: 'require'; reason: string; message: string }
+  | { kind: 'rejected'; message: string }
+  | { kind: 'unknown'; message: string };
+
+// User-facing copy for every custom error in CONTRACT_ERRORS_ABI
+const CUSTOM_ERROR_MESSAGES: Record<ContractErrorName, string> = {
+  NotKeeper: 'Only the keeper assigned to this vault can execute cycles.',
+  IntervalNotElapsed: 'The interval since the last cycle has not elapsed yet.',
+  MaxSlippageExceeded: "The swap would exceed the vault's maximum slippage.",
+  CapExceeded: "The cycle amount exceeds the vault's per-cycle cap.",
+  Paused: 'This vault is paused.',
+  NotPaused: 'This vault is not paused.',
+  NotGuardian: 'Only the owner or the guardian can pause this vault.',
+  TimelockNotElapsed: 'The queued config change cannot be applied until its delay has passed.',
+  ConfigExpired: 'The queued config change was not applied in time and has expired. The owner must queue it again.',
+  NoPendingConfig: 'There is no queued config change.',
+  UnsupportedPair: 'No price feed is configured for this token pair.',
+  InvalidPrice: 'The price feed returned an invalid price.',
+  StalePrice: 'The price feed for this vault is stale. Deposits and withdrawals resume once it updates; Exit in Kind stays open.',
+  ZeroAddress: 'An address is missing or set to the zero address.',
+  InvalidParams: 'One or more parameters are invalid.',
+  NotRelayer: 'Only the relayer can perform this action.',
+  MetaTxExpired: 'The signed request has passed its deadline.',
+  OwnableUnauthorizedAccount: 'Only the owner can perform this action.',
+  OwnableInvalidOwner: 'The owner address is invalid.',
+  ERC20InsufficientBalance: 'Insufficient token balance.',
+  ERC20InsufficientAllowance: 'Token allowance is too low. Approve a larger amount first.',
+  ERC20InvalidReceiver: 'The token receiver address is invalid.',
+  ERC4626ExceededMaxDeposit: 'The deposit exceeds what the vault currently accepts.',
+  ERC4626ExceededMaxWithdraw: 'The amount exceeds what you can withdraw in the quote token. Use Exit in Kind for the rest.',
+  ERC4626ExceededMaxRedeem: 'You cannot redeem that many shares for the quote token. Use Exit in Kind for the rest.',
+  SafeERC20FailedOperation: 'A token transfer failed.',
+  ReentrancyGuardReentrantCall: 'Reentrant call rejected.',
+  ECDSAInvalidSignature: 'The signature is invalid.',
+  ECDSAInvalidSignatureLength: 'The signature has an invalid length.',
+  ECDSAInvalidSignatureS: 'The signature is malformed.',
+};
+
+// User-facing copy for `require` strings raised by the contracts
+const REQUIRE_MESSAGES: Record<string, string> = {
+  NoQuote: 'The vault holds no quote tokens to swap.',
+  Slippage: "The swap would return less than the minimum output allowed by the vault's slippage limit.",
+  'Index out of bounds': 'No vault exists at that index.',
+};
+
+/**
+ * Decode a failed contract read, simulation or write into a typed result with user-facing copy.
+ * ABIs must include CONTRACT_ERRORS_ABI for custom errors to be recognised
+ */
+export function decodeContractError(error: unknown): DecodedContractError {
+  if (!(error instanceof BaseError)) {
+    return { kind: 'unknown', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+    return { kind: 'rejected', message: 'Request rejected in your wallet.' };
+  }
+
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    const errorName = revert.data?.errorName;
+    if (errorName && errorName in CUSTOM_ERROR_MESSAGES) {
+      const name = errorName as ContractErrorName;
+      return { kind: 'custom', name, args: revert.data?.args ?? [], message: CUSTOM_ERROR_MESSAGES[name] };
+    }
+
+    if (revert.reason) {
+      return {
+        kind: 'require',
+        reason: revert.reason,
+        message: REQUIRE_MESSAGES[revert.reason] ?? `Transaction reverted: ${revert.reason}`,
+      };
+    }
+  }
+
+  return { kind: 'unknown', message: error.shortMessage };
+}
+
+/**
+ * Short message for toasts and inline errors, falling back when nothing useful can be decoded
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return decodeContractError(error).message || fallback;
+}
@@ -0,0 +1,178 @@
+import { formatUnits, zeroAddress, type Address } from 'viem';
+
+import type { TokenInfo, VaultConfig } from './contracts';
+import { estimatedValue, type VaultAssets } from './priceSource';
+
+export interface ExplorerVault {
+  address: Address;
+  owner: Address;
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+  config: VaultConfig;
+  // Both legs, so TVL can count base holdings even while the price is stale
+  assets: VaultAssets;
+  totalFilledQuote: bigint;
+  nextExecTime: bigint;
+  // Position in the factory's vault list, which follows creation order
+  index: number;
+}
+
+export type VaultStatusFilter = 'all' | 'active' | 'paused';
+export type KeeperFilter = 'all' | 'permissionless' | 'restricted';
+export type VaultSort = 'newest' | 'oldest' | 'tvl' | 'volume' | 'next';
+
+export interface VaultFilters {
+  base: string;
+  quote: string;
+  owner: string;
+  status: VaultStatusFilter;
+  keeper: KeeperFilter;
+  // Seconds
+  minInterval?: number;
+  maxInterval?: number;
+  // Basis points
+  minFee?: number;
+  maxFee?: number;
+  sort: VaultSort;
+}
+
+export const DEFAULT_VAULT_FILTERS: VaultFilters = {
+  base: '',
+  quote: '',
+  owner: '',
+  status: 'all',
+  keeper: 'all',
+  sort: 'newest',
+};
+
+const STATUS_OPTIONS: VaultStatusFilter[] = ['all', 'active', 'paused'];
+const KEEPER_OPTIONS: KeeperFilter[] = ['all', 'permissionless', 'restricted'];
+const SORT_OPTIONS: VaultSort[] = ['newest', 'oldest', 'tvl', 'volume', 'next'];
+
+type QueryValue = string | string[] | undefined;
+
+function first(value: QueryValue): string {
+  return (Array.isArray(value) ? value[0] : value) ?? '';
+}
+
+function oneOf<T extends string>(value: QueryValue, options: T[], fallback: T): T {
+  const raw = first(value);
+  return options.includes(raw as T) ? (raw as T) : fallback;
+}
+
+function nonNegative(value: QueryValue): number | undefined {
+  const raw = first(value);
+  if (raw === '') return undefined;
+  const num = Number(raw);
+  return Number.isFinite(num) && num >= 0 ? num : undefined;
+}
+
+/**
+ * Read filters from a Next.js router query, ignoring anything malformed
+ */
+export function parseVaultFilters(query: Record<string, QueryValue>): VaultFilters {
+  return {
+    base: first(query.base).trim(),
+    quote: first(query.quote).trim(),
+    owner: first(query.owner).trim(),
+    status: oneOf(query.status, STATUS_OPTIONS, DEFAULT_VAULT_FILTERS.status),
+    keeper: oneOf(query.keeper, KEEPER_OPTIONS, DEFAULT_VAULT_FILTERS.keeper),
+    minInterval: nonNegative(query.minInterval),
+    maxInterval: nonNegative(query.maxInterval),
+    minFee: nonNegative(query.minFee),
+    maxFee: nonNegative(query.maxFee),
+    sort: oneOf(query.sort, SORT_OPTIONS, DEFAULT_VAULT_FILTERS.sort),
+  };
+}
+
+/**
+ * Serialize filters into a router query, leaving out defaults so shared URLs stay short
+ */
+export function toVaultQuery(filters: VaultFilters): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === '') continue;
+    if (value === DEFAULT_VAULT_FILTERS[key as keyof VaultFilters]) continue;
+    query[key] = String(value);
+  }
+  return query;
+}
+
+export function hasActiveFilters(filters: VaultFilters): boolean {
+  return Object.keys(toVaultQuery(filters)).some((key) => key !== 'sort');
+}
+
+/**
+ * Match a token by address prefix or case-insensitive symbol substring
+ */
+function matchesToken(token: TokenInfo, search: string): boolean {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  if (needle.startsWith('0x')) return token.address.toLowerCase().startsWith(needle);
+  return token.symbol.toLowerCase().includes(needle);
+}
+
+function inRange(value: bigint, min?: number, max?: number): boolean {
+  if (min !== undefined && value < BigInt(Math.floor(min))) return false;
+  if (max !== undefined && value > BigInt(Math.floor(max))) return false;
+  return true;
+}
+
+export function filterVaults(vaults: ExplorerVault[], filters: VaultFilters): ExplorerVault[] {
+  const owner = filters.owner.toLowerCase();
+
+  return vaults.filter((vault) => {
+    const { config } = vault;
+    if (!matchesToken(vault.baseToken, filters.base)) return false;
+    if (!matchesToken(vault.quoteToken, filters.quote)) return false;
+    if (owner && !vault.owner.toLowerCase().startsWith(owner)) return false;
+    if (filters.status === 'active' && config.paused) return false;
+    if (filters.status === 'paused' && !config.paused) return false;
+    if (filters.keeper === 'permissionless' && config.keeper !== zeroAddress) return false;
+    if (filters.keeper === 'restricted' && config.keeper === zeroAddress) return false;
+    if (!inRange(config.intervalSeconds, filters.minInterval, filters.maxInterval)) return false;
+    if (!inRange(config.feeBps, filters.minFee, filters.maxFee)) return false;
+    return true;
+  });
+}
+
+function compareBigint(a: bigint, b: bigint): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function wholeQuote(amount: bigint, vault: ExplorerVault): number {
+  return Number(formatUnits(amount, vault.quoteToken.decimals));
+}
+
+/**
+ * Sort vaults for display. TVL and volume are compared as whole-token amounts so that
+ * 6- and 18-decimal quote tokens rank on the same footing; TVL counts the base leg at its
+ * latest price. Ties fall back to newest first
+ */
+export function sortVaults(vaults: ExplorerVault[], sort: VaultSort): ExplorerVault[] {
+  const sorted = [...vaults];
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => a.index - b.index);
+    case 'tvl':
+      return sorted.sort(
+        (a, b) =>
+          wholeQuote(estimatedValue(b.assets), b) - wholeQuote(estimatedValue(a.assets), a) || b.index - a.index
+      );
+    case 'volume':
+      return sorted.sort(
+        (a, b) => wholeQuote(b.totalFilledQuote, b) - wholeQuote(a.totalFilledQuote, a) || b.index - a.index
+      );
+    case 'next':
+      // Paused vaults never execute, so they go last
+      return sorted.sort(
+        (a, b) =>
+          Number(a.config.paused) - Number(b.config.paused) ||
+          compareBigint(a.nextExecTime, b.nextExecTime) ||
+          b.index - a.index
+      );
+    case 'newest':
+    default:
+      return sorted.sort((a, b) => b.index - a.index);
+  }
+}
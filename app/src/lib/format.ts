@@ -1,11 +1,11 @@
 import { formatUnits, parseUnits } from 'viem';
 
 /**
- * Format token amount with decimals
+ * Format token amount with the token's own decimals (see lib/tokens.ts)
  */
 export function formatTokenAmount(
   amount: bigint | string,
-  decimals: number = 18,
+  decimals: number,
   displayDecimals: number = 4
 ): string {
   if (!amount || amount === 0n) return '0';
@@ -22,9 +22,9 @@ export function formatTokenAmount(
 }
 
 /**
- * Parse token amount to BigInt
+ * Parse token amount to BigInt using the token's own decimals
  */
-export function parseTokenAmount(amount: string, decimals: number = 18): bigint {
+export function parseTokenAmount(amount: string, decimals: number): bigint {
   if (!amount || amount === '') return 0n;
   try {
     return parseUnits(amount, decimals);
@@ -135,25 +135,3 @@ export function getRelativeTime(timestamp: bigint | number): string {
   if (minutes > 0) return `${minutes}m ago`;
   return `${seconds}s ago`;
 }
-
-/**
- * Calculate APY from fill data (simplified estimate)
- */
-export function estimateAPY(
-  totalFilledQuote: bigint,
-  totalFilledBase: bigint,
-  timeElapsed: number
-): number {
-  if (totalFilledQuote === 0n || timeElapsed === 0) return 0;
-  
-  const quoteNum = Number(formatUnits(totalFilledQuote, 18));
-  const baseNum = Number(formatUnits(totalFilledBase, 18));
-  
-  if (quoteNum === 0) return 0;
-  
-  const gain = baseNum - quoteNum; // Simplified 1:1 assumption
-  const roi = gain / quoteNum;
-  const annualizedROI = (roi * (365 * 24 * 3600)) / timeElapsed;
-  
-  return annualizedROI * 100;
-}
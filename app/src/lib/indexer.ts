@@ -0,0 +1,245 @@
+import type { Address, Hash } from 'viem';
+
+import type { FillRecord, PendingConfig, VaultConfig } from './contracts';
+
+// Unset by default: pages fall back to reading the chain directly
+export const INDEXER_API_URL = process.env.NEXT_PUBLIC_INDEXER_API_URL || '';
+
+// JSON-safe forms of indexed records (uint256 values travel as decimal strings)
+export interface SerializedVaultConfig {
+  intervalSeconds: string;
+  maxSlippageBps: string;
+  perCycleQuoteCap: string;
+  feeBps: string;
+  keeper: Address;
+  paused: boolean;
+}
+
+export interface SerializedPendingConfig {
+  maxSlippageBps: string;
+  feeBps: string;
+  keeper: Address;
+  eta: string;
+}
+
+export interface IndexedVault {
+  address: Address;
+  baseToken: Address;
+  quoteToken: Address;
+  creator: Address;
+  sourceVault: Address | null;
+  config: SerializedVaultConfig;
+  pendingConfig: SerializedPendingConfig | null;
+  createdAt: number;
+  blockNumber: number;
+  transactionHash: Hash;
+  fillCount: number;
+  totalFilledQuote: string;
+  totalFilledBase: string;
+  lastFillAt: number | null;
+  copyCount: number;
+}
+
+export interface IndexedFill {
+  vault: Address;
+  ts: number;
+  quoteIn: string;
+  baseOut: string;
+  blockNumber: number;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+export type FlowKind = 'deposit' | 'withdraw' | 'redeemInKind';
+
+export interface IndexedFlow {
+  vault: Address;
+  kind: FlowKind;
+  sender: Address;
+  owner: Address;
+  receiver: Address | null;
+  assets: string;
+  shares: string;
+  // Base paid out by redeemInKind alongside `assets` in quote; "0" for the ERC-4626 flows
+  baseOut: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+export interface IndexedMetaTx {
+  user: Address;
+  vault: Address;
+  quoteAmount: string;
+  baseOut: string;
+  relayerFee: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+export interface IndexedToken {
+  address: Address;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface IndexerStats {
+  vaultCount: number;
+  copyCount: number;
+  activeCount: number;
+  pausedCount: number;
+  fillCount: number;
+  fills24h: number;
+  depositorCount: number;
+  volumeByQuoteToken: { token: Address; totalFilledQuote: string }[];
+}
+
+export interface IndexerStatus {
+  ok: boolean;
+  chainId: number;
+  indexedBlock: number | null;
+  headBlock: number | null;
+}
+
+export interface IndexedVaultFilters {
+  creator?: Address;
+  baseToken?: Address;
+  quoteToken?: Address;
+  sourceVault?: Address;
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Convert a serialized config back into a VaultConfig
+ */
+export function deserializeVaultConfig(config: SerializedVaultConfig): VaultConfig {
+  return {
+    intervalSeconds: BigInt(config.intervalSeconds),
+    maxSlippageBps: BigInt(config.maxSlippageBps),
+    perCycleQuoteCap: BigInt(config.perCycleQuoteCap),
+    feeBps: BigInt(config.feeBps),
+    keeper: config.keeper,
+    paused: config.paused,
+  };
+}
+
+export function serializeVaultConfig(config: VaultConfig): SerializedVaultConfig {
+  return {
+    intervalSeconds: config.intervalSeconds.toString(),
+    maxSlippageBps: config.maxSlippageBps.toString(),
+    perCycleQuoteCap: config.perCycleQuoteCap.toString(),
+    feeBps: config.feeBps.toString(),
+    keeper: config.keeper,
+    paused: config.paused,
+  };
+}
+
+export function serializePendingConfig(pending: PendingConfig): SerializedPendingConfig {
+  return {
+    maxSlippageBps: pending.maxSlippageBps.toString(),
+    feeBps: pending.feeBps.toString(),
+    keeper: pending.keeper,
+    eta: pending.eta.toString(),
+  };
+}
+
+/**
+ * Convert a serialized pending change back into a PendingConfig
+ */
+export function deserializePendingConfig(pending: SerializedPendingConfig): PendingConfig {
+  return {
+    maxSlippageBps: BigInt(pending.maxSlippageBps),
+    feeBps: BigInt(pending.feeBps),
+    keeper: pending.keeper,
+    eta: BigInt(pending.eta),
+  };
+}
+
+/**
+ * Convert an indexed fill into the FillRecord shape the UI already renders
+ */
+export function toFillRecord(fill: IndexedFill): FillRecord {
+  return {
+    ts: BigInt(fill.ts),
+    quoteIn: BigInt(fill.quoteIn),
+    baseOut: BigInt(fill.baseOut),
+    blockNumber: BigInt(fill.blockNumber),
+    transactionHash: fill.transactionHash,
+  };
+}
+
+function toQuery(params: object): string {
+  const entries = Object.entries(params).filter(([, value]) => value !== undefined && value !== '');
+  if (entries.length === 0) return '';
+  return `?${new URLSearchParams(entries.map(([key, value]): [string, string] => [key, String(value)]))}`;
+}
+
+async function indexerRequest<T>(path: string, baseUrl = INDEXER_API_URL): Promise<T> {
+  if (!baseUrl) throw new Error('Indexer API URL is not configured');
+
+  const response = await fetch(`${baseUrl}${path}`);
+  const body: unknown = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    const { error } = (body ?? {}) as { error?: string };
+    throw new Error(error || `Indexer responded with ${response.status}`);
+  }
+  return body as T;
+}
+
+export function fetchIndexerStatus(baseUrl?: string): Promise<IndexerStatus> {
+  return indexerRequest('/health', baseUrl);
+}
+
+export function fetchIndexerStats(baseUrl?: string): Promise<IndexerStats> {
+  return indexerRequest('/stats', baseUrl);
+}
+
+export function fetchIndexedVaults(
+  filters: IndexedVaultFilters & PageOptions = {},
+  baseUrl?: string
+): Promise<IndexedVault[]> {
+  return indexerRequest(`/vaults${toQuery(filters)}`, baseUrl);
+}
+
+export function fetchIndexedVault(vault: Address, baseUrl?: string): Promise<IndexedVault> {
+  return indexerRequest(`/vaults/${vault}`, baseUrl);
+}
+
+/**
+ * Fill history for a vault, newest first
+ */
+export async function fetchIndexedFills(
+  vault: Address,
+  page: PageOptions = {},
+  baseUrl?: string
+): Promise<FillRecord[]> {
+  const fills = await indexerRequest<IndexedFill[]>(`/vaults/${vault}/fills${toQuery(page)}`, baseUrl);
+  return fills.map(toFillRecord);
+}
+
+export function fetchIndexedFlows(
+  vault: Address,
+  page: PageOptions = {},
+  baseUrl?: string
+): Promise<IndexedFlow[]> {
+  return indexerRequest(`/vaults/${vault}/flows${toQuery(page)}`, baseUrl);
+}
+
+export function fetchIndexedMetaTxs(
+  filters: { user?: Address; vault?: Address } & PageOptions = {},
+  baseUrl?: string
+): Promise<IndexedMetaTx[]> {
+  return indexerRequest(`/meta-txs${toQuery(filters)}`, baseUrl);
+}
+
+export function fetchIndexedTokens(baseUrl?: string): Promise<IndexedToken[]> {
+  return indexerRequest('/tokens', baseUrl);
+}
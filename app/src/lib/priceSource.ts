@@ -0,0 +1,87 @@
+import type { Address, PublicClient } from 'viem';
+
+import { CONTRACT_ADDRESSES, ERC20_ABI, MICRO_DCA_VAULT_ABI, PRICE_SOURCE_ABI, VAULT_FACTORY_ABI } from './contracts';
+
+export interface VaultAssets {
+  quoteBalance: bigint;
+  baseBalance: bigint;
+  // Base balance valued in quote tokens by the vault's price source; null when the source
+  // cannot price the pair right now (removed feed or invalid answer)
+  baseValue: bigint | null;
+  // False when the price is stale or unavailable: deposits are blocked and totalAssets
+  // counts the base leg as zero
+  fresh: boolean;
+}
+
+/**
+ * Quote value of both legs at the source's latest price, stale or not. Unlike totalAssets this
+ * keeps a stale base leg, so it suits ranking and display; an unpriced base leg counts as zero
+ */
+export function estimatedValue(assets: VaultAssets): bigint {
+  return assets.quoteBalance + (assets.baseValue ?? 0n);
+}
+
+/**
+ * Whether the factory's price source can value base in quote terms. createVault reverts
+ * with UnsupportedPair otherwise
+ */
+export async function isPairPriced(
+  publicClient: PublicClient,
+  base: Address,
+  quote: Address,
+  factory: Address = CONTRACT_ADDRESSES.VAULT_FACTORY
+): Promise<boolean> {
+  const priceSource = await publicClient.readContract({
+    address: factory,
+    abi: VAULT_FACTORY_ABI,
+    functionName: 'priceSource',
+  });
+  return publicClient.readContract({
+    address: priceSource,
+    abi: PRICE_SOURCE_ABI,
+    functionName: 'isSupported',
+    args: [base, quote],
+  });
+}
+
+/**
+ * Both legs of a vault's holdings, with the base leg valued by the vault's price source.
+ * totalAssets only counts that value while it is fresh
+ */
+export async function fetchVaultAssets(
+  publicClient: PublicClient,
+  vault: { address: Address; baseToken: Address; quoteToken: Address }
+): Promise<VaultAssets> {
+  const [priceSource, quoteBalance, baseBalance] = await Promise.all([
+    publicClient.readContract({ address: vault.address, abi: MICRO_DCA_VAULT_ABI, functionName: 'priceSource' }),
+    publicClient.readContract({
+      address: vault.quoteToken,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [vault.address],
+    }),
+    publicClient.readContract({
+      address: vault.baseToken,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [vault.address],
+    }),
+  ]);
+
+  // Mirrors totalAssets, which skips the price source while the vault holds no base
+  if (baseBalance === 0n) return { quoteBalance, baseBalance, baseValue: 0n, fresh: true };
+
+  try {
+    const [baseValue, fresh] = (await publicClient.readContract({
+      address: priceSource,
+      abi: PRICE_SOURCE_ABI,
+      functionName: 'getQuote',
+      args: [vault.baseToken, vault.quoteToken, baseBalance],
+    })) as readonly [bigint, boolean];
+
+    return { quoteBalance, baseBalance, baseValue, fresh };
+  } catch {
+    // getQuote reverts for an unsupported pair or a non-positive answer; the vault treats that as stale
+    return { quoteBalance, baseBalance, baseValue: null, fresh: false };
+  }
+}
@@ -0,0 +1,116 @@
+import { parseUnits, type Address, type PublicClient } from 'viem';
+
+import { CONTRACT_ADDRESSES, MICRO_DCA_VAULT_ABI, ROUTER_ABI } from './contracts';
+
+export interface CycleQuoteParams {
+  baseToken: Address;
+  quoteToken: Address;
+  maxSlippageBps: bigint;
+  router?: Address;
+}
+
+export interface CycleQuote {
+  quoteAmount: bigint;
+  expectedOut: bigint;
+  minOut: bigint;
+}
+
+/**
+ * Spend up to the per-cycle cap out of what the vault holds
+ */
+export function cycleQuoteAmount(perCycleQuoteCap: bigint, quoteBalance: bigint): bigint {
+  return quoteBalance < perCycleQuoteCap ? quoteBalance : perCycleQuoteCap;
+}
+
+/**
+ * Accept no less than the expected output minus the vault's slippage budget
+ */
+export function applySlippage(expectedOut: bigint, maxSlippageBps: bigint): bigint {
+  return (expectedOut * (10_000n - maxSlippageBps)) / 10_000n;
+}
+
+/**
+ * Ask the router what swapping `quoteAmount` along the quote→base path returns right now
+ */
+export async function getExpectedOut(
+  publicClient: PublicClient,
+  { baseToken, quoteToken, router = CONTRACT_ADDRESSES.ROUTER }: Omit<CycleQuoteParams, 'maxSlippageBps'>,
+  quoteAmount: bigint
+): Promise<bigint> {
+  if (quoteAmount === 0n) return 0n;
+
+  const amounts = await publicClient.readContract({
+    address: router,
+    abi: ROUTER_ABI,
+    functionName: 'getAmountsOut',
+    args: [quoteAmount, [quoteToken, baseToken]],
+  });
+  return amounts[amounts.length - 1] ?? 0n;
+}
+
+/**
+ * Router price for selling one whole base token along the base→quote path, in quote units.
+ * Values positions in analytics.ts; large positions would see more price impact than this
+ */
+export async function getMarketPrice(
+  publicClient: PublicClient,
+  { baseToken, quoteToken, router = CONTRACT_ADDRESSES.ROUTER }: Omit<CycleQuoteParams, 'maxSlippageBps'>,
+  baseDecimals: number
+): Promise<bigint> {
+  const amounts = await publicClient.readContract({
+    address: router,
+    abi: ROUTER_ABI,
+    functionName: 'getAmountsOut',
+    args: [parseUnits('1', baseDecimals), [baseToken, quoteToken]],
+  });
+  return amounts[amounts.length - 1] ?? 0n;
+}
+
+/**
+ * Whether the router can swap quote into base at all: a quote for one whole quote token
+ * that neither reverts nor returns zero
+ */
+export async function hasRoute(
+  publicClient: PublicClient,
+  params: Omit<CycleQuoteParams, 'maxSlippageBps'>,
+  quoteDecimals: number
+): Promise<boolean> {
+  try {
+    return (await getExpectedOut(publicClient, params, parseUnits('1', quoteDecimals))) > 0n;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Quote a cycle from known vault parameters: router output with maxSlippageBps applied
+ */
+export async function quoteCycleOut(
+  publicClient: PublicClient,
+  params: CycleQuoteParams,
+  quoteAmount: bigint
+): Promise<CycleQuote> {
+  const expectedOut = await getExpectedOut(publicClient, params, quoteAmount);
+  return { quoteAmount, expectedOut, minOut: applySlippage(expectedOut, params.maxSlippageBps) };
+}
+
+/**
+ * Quote a safe executeCycle minOut for a vault, reading its tokens, slippage setting
+ * and router on-chain. Pass the result to executeCycle or sign it into an ExecuteCycle message
+ */
+export async function quoteCycle(
+  publicClient: PublicClient,
+  vault: Address,
+  quoteAmount: bigint
+): Promise<CycleQuote> {
+  const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+  const [baseToken, quoteToken, router, config] = await Promise.all([
+    publicClient.readContract({ ...contract, functionName: 'baseToken' }),
+    publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+    publicClient.readContract({ ...contract, functionName: 'router' }),
+    publicClient.readContract({ ...contract, functionName: 'getConfig' }),
+  ]);
+  const [, maxSlippageBps] = config as readonly [bigint, bigint, bigint, bigint, Address, boolean];
+
+  return quoteCycleOut(publicClient, { baseToken, quoteToken, maxSlippageBps, router }, quoteAmount);
+}
@@ -0,0 +1,163 @@
+import type { Address, Hex } from 'viem';
+
+import type { ExecuteCycleMessage, RelayIntent } from './contracts';
+
+export const RELAYER_API_URL = process.env.NEXT_PUBLIC_RELAYER_API_URL || 'http://localhost:8787';
+
+// EIP-712 definition matching Relayer.EXECUTE_CYCLE_TYPEHASH
+export const EXECUTE_CYCLE_TYPES = {
+  ExecuteCycle: [
+    { name: 'vault', type: 'address' },
+    { name: 'quoteAmount', type: 'uint256' },
+    { name: 'minOut', type: 'uint256' },
+    { name: 'beneficiary', type: 'address' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * EIP-712 domain of the Relayer contract deployed at `verifyingContract`
+ */
+export function getRelayerDomain(chainId: number, verifyingContract: Address) {
+  return {
+    name: 'MicroDcaRelayer',
+    version: '1',
+    chainId,
+    verifyingContract,
+  } as const;
+}
+
+/**
+ * Plain-text message a signer signs to withdraw a queued intent from the relayer
+ */
+export function getCancelMessage(id: string): string {
+  return `Cancel Micro-DCA relay intent ${id}`;
+}
+
+// JSON-safe forms of the relay types (bigints travel as decimal strings)
+export interface SerializedExecuteCycleMessage {
+  vault: Address;
+  quoteAmount: string;
+  minOut: string;
+  beneficiary: Address;
+  deadline: string;
+  nonce: string;
+}
+
+export type SerializedRelayIntent = Omit<RelayIntent, 'message'> & {
+  message: SerializedExecuteCycleMessage;
+};
+
+export interface RelaySubmission {
+  message: SerializedExecuteCycleMessage;
+  signature: Hex;
+}
+
+export interface RelayCancellation {
+  signature: Hex;
+}
+
+/**
+ * Convert an ExecuteCycle message to its JSON wire format
+ */
+export function serializeMessage(message: ExecuteCycleMessage): SerializedExecuteCycleMessage {
+  return {
+    vault: message.vault,
+    quoteAmount: message.quoteAmount.toString(),
+    minOut: message.minOut.toString(),
+    beneficiary: message.beneficiary,
+    deadline: message.deadline.toString(),
+    nonce: message.nonce.toString(),
+  };
+}
+
+/**
+ * Parse an ExecuteCycle message from its JSON wire format
+ */
+export function deserializeMessage(message: SerializedExecuteCycleMessage): ExecuteCycleMessage {
+  return {
+    vault: message.vault,
+    quoteAmount: BigInt(message.quoteAmount),
+    minOut: BigInt(message.minOut),
+    beneficiary: message.beneficiary,
+    deadline: BigInt(message.deadline),
+    nonce: BigInt(message.nonce),
+  };
+}
+
+/**
+ * Convert an intent to its JSON wire format. Fields are copied one by one so that
+ * the relayer's stored signature is never echoed back to API clients
+ */
+export function serializeIntent(intent: RelayIntent): SerializedRelayIntent {
+  return {
+    id: intent.id,
+    signer: intent.signer,
+    message: serializeMessage(intent.message),
+    status: intent.status,
+    createdAt: intent.createdAt,
+    updatedAt: intent.updatedAt,
+    transactionHash: intent.transactionHash,
+    error: intent.error,
+  };
+}
+
+export function deserializeIntent(intent: SerializedRelayIntent): RelayIntent {
+  return { ...intent, message: deserializeMessage(intent.message) };
+}
+
+async function relayRequest<T>(path: string, init?: RequestInit, baseUrl = RELAYER_API_URL): Promise<T> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body: unknown = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    const { error } = (body ?? {}) as { error?: string };
+    throw new Error(error || `Relayer responded with ${response.status}`);
+  }
+  return body as T;
+}
+
+/**
+ * Hand a signed ExecuteCycle message to the relayer queue
+ */
+export async function submitRelayIntent(
+  message: ExecuteCycleMessage,
+  signature: Hex,
+  baseUrl?: string
+): Promise<RelayIntent> {
+  const submission: RelaySubmission = { message: serializeMessage(message), signature };
+  const intent = await relayRequest<SerializedRelayIntent>(
+    '/intents',
+    { method: 'POST', body: JSON.stringify(submission) },
+    baseUrl
+  );
+  return deserializeIntent(intent);
+}
+
+/**
+ * List the intents the relayer holds for a signer, newest first
+ */
+export async function fetchRelayIntents(signer: Address, baseUrl?: string): Promise<RelayIntent[]> {
+  const intents = await relayRequest<SerializedRelayIntent[]>(
+    `/intents?signer=${signer}`,
+    undefined,
+    baseUrl
+  );
+  return intents.map(deserializeIntent);
+}
+
+/**
+ * Withdraw a queued intent; `signature` must be the signer's signature over getCancelMessage(id)
+ */
+export async function cancelRelayIntent(id: string, signature: Hex, baseUrl?: string): Promise<RelayIntent> {
+  const cancellation: RelayCancellation = { signature };
+  const intent = await relayRequest<SerializedRelayIntent>(
+    `/intents/${id}`,
+    { method: 'DELETE', body: JSON.stringify(cancellation) },
+    baseUrl
+  );
+  return deserializeIntent(intent);
+}
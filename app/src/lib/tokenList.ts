@@ -0,0 +1,120 @@
+import { getAddress, isAddress, type Address, type PublicClient } from 'viem';
+
+import type { TokenInfo } from './contracts';
+import { fetchTokenInfo } from './tokens';
+
+// Uniswap-format token list (https://tokenlists.org); unset means only imported tokens are offered
+export const TOKEN_LIST_URL = process.env.NEXT_PUBLIC_TOKEN_LIST_URL || '';
+
+// Imported tokens are remembered per browser
+const CUSTOM_TOKENS_KEY = 'micro-dca:custom-tokens';
+
+export interface TokenListToken {
+  chainId: number;
+  address: Address;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+}
+
+export interface TokenList {
+  name: string;
+  tokens: TokenListToken[];
+}
+
+export interface ListedToken extends TokenInfo {
+  logoURI?: string;
+  // True for tokens the user imported by address rather than picked from the list
+  custom: boolean;
+}
+
+function isListToken(value: unknown): value is TokenListToken {
+  const token = value as Partial<TokenListToken> | null;
+  return (
+    !!token &&
+    typeof token.chainId === 'number' &&
+    typeof token.address === 'string' &&
+    isAddress(token.address) &&
+    typeof token.symbol === 'string' &&
+    typeof token.name === 'string' &&
+    typeof token.decimals === 'number'
+  );
+}
+
+/**
+ * Load a token list and keep the well-formed entries for one chain
+ */
+export async function fetchTokenList(url: string, chainId: number): Promise<ListedToken[]> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Token list responded with ${response.status}`);
+
+  const list = (await response.json()) as Partial<TokenList>;
+  if (!Array.isArray(list.tokens)) throw new Error('Token list has no tokens array');
+
+  return list.tokens
+    .filter(isListToken)
+    .filter((token) => token.chainId === chainId)
+    .map((token) => ({
+      address: getAddress(token.address),
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      logoURI: token.logoURI,
+      custom: false,
+    }));
+}
+
+function readCustomTokens(): TokenInfo[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(window.localStorage.getItem(CUSTOM_TOKENS_KEY) || '[]') as TokenInfo[];
+  } catch {
+    return [];
+  }
+}
+
+export function loadCustomTokens(): ListedToken[] {
+  return readCustomTokens().map((token) => ({ ...token, custom: true }));
+}
+
+/**
+ * Remember an imported token, replacing any earlier import of the same address
+ */
+export function saveCustomToken({ address, name, symbol, decimals }: TokenInfo): ListedToken[] {
+  const stored = readCustomTokens().filter((token) => token.address.toLowerCase() !== address.toLowerCase());
+  stored.push({ address, name, symbol, decimals });
+  window.localStorage.setItem(CUSTOM_TOKENS_KEY, JSON.stringify(stored));
+  return loadCustomTokens();
+}
+
+/**
+ * Match tokens by address, or by symbol or name; exact symbol matches rank first
+ */
+export function searchTokens(tokens: ListedToken[], query: string): ListedToken[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return tokens;
+
+  if (needle.startsWith('0x')) {
+    return tokens.filter((token) => token.address.toLowerCase().startsWith(needle));
+  }
+
+  return tokens
+    .filter((token) => token.symbol.toLowerCase().includes(needle) || token.name.toLowerCase().includes(needle))
+    .sort((a, b) => Number(b.symbol.toLowerCase() === needle) - Number(a.symbol.toLowerCase() === needle));
+}
+
+/**
+ * Read a token's metadata on-chain and list where it disagrees with the token list entry.
+ * An empty mismatch list means the entry can be trusted
+ */
+export async function verifyListedToken(
+  publicClient: PublicClient,
+  token: ListedToken
+): Promise<{ info: TokenInfo; mismatches: string[] }> {
+  const info = await fetchTokenInfo(publicClient, token.address);
+  const mismatches: string[] = [];
+  if (info.symbol !== token.symbol) mismatches.push(`symbol is ${info.symbol}, list says ${token.symbol}`);
+  if (info.decimals !== token.decimals) mismatches.push(`decimals are ${info.decimals}, list says ${token.decimals}`);
+  return { info, mismatches };
+}
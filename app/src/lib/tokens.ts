@@ -0,0 +1,35 @@
+import type { Address, PublicClient } from 'viem';
+
+import { ERC20_ABI, type TokenInfo } from './contracts';
+
+// Token metadata never changes, so it is cached for the lifetime of the page
+const tokenCache = new Map<string, TokenInfo>();
+
+/**
+ * Read a token's cached metadata, if it has been fetched before
+ */
+export function getCachedTokenInfo(address: Address): TokenInfo | undefined {
+  return tokenCache.get(address.toLowerCase());
+}
+
+/**
+ * Fetch decimals, symbol and name for a token, caching the result
+ */
+export async function fetchTokenInfo(
+  publicClient: PublicClient,
+  address: Address
+): Promise<TokenInfo> {
+  const cached = getCachedTokenInfo(address);
+  if (cached) return cached;
+
+  const contract = { address, abi: ERC20_ABI } as const;
+  const [decimals, symbol, name] = await Promise.all([
+    publicClient.readContract({ ...contract, functionName: 'decimals' }),
+    publicClient.readContract({ ...contract, functionName: 'symbol' }),
+    publicClient.readContract({ ...contract, functionName: 'name' }),
+  ]);
+
+  const info: TokenInfo = { address, decimals, symbol, name };
+  tokenCache.set(address.toLowerCase(), info);
+  return info;
+}
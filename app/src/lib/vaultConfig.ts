@@ -0,0 +1,150 @@
+import { zeroAddress } from 'viem';
+
+import type { PendingConfig, VaultConfig } from './contracts';
+
+// The highest fee the create form has ever offered; anything above it is unusual
+export const FEE_CEILING_BPS = 1000n;
+
+// Slippage budgets above this are more likely a typo than a strategy
+export const SLIPPAGE_WARNING_BPS = 1000n;
+
+// MicroDcaVault.CONFIG_DELAY: how long a queued change waits before it can be applied
+export const CONFIG_DELAY_SECONDS = 2 * 24 * 60 * 60;
+
+// MicroDcaVault.CONFIG_GRACE_PERIOD: how long after its ETA a queued change can still be applied
+export const CONFIG_GRACE_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+
+// Fields setConfig queues behind CONFIG_DELAY when a change loosens them
+export const TIMELOCKED_FIELDS: (keyof VaultConfig)[] = ['maxSlippageBps', 'feeBps', 'keeper'];
+
+export const CONFIG_FIELDS: (keyof VaultConfig)[] = [
+  'intervalSeconds',
+  'maxSlippageBps',
+  'perCycleQuoteCap',
+  'feeBps',
+  'keeper',
+  'paused',
+];
+
+export const CONFIG_LABELS: Record<keyof VaultConfig, string> = {
+  intervalSeconds: 'Interval',
+  maxSlippageBps: 'Max slippage',
+  perCycleQuoteCap: 'Per-cycle cap',
+  feeBps: 'Fee',
+  keeper: 'Keeper',
+  paused: 'Paused',
+};
+
+export interface ConfigWarning {
+  field: keyof VaultConfig;
+  message: string;
+}
+
+function sameValue(field: keyof VaultConfig, a: VaultConfig, b: VaultConfig): boolean {
+  return field === 'keeper'
+    ? a.keeper.toLowerCase() === b.keeper.toLowerCase()
+    : a[field] === b[field];
+}
+
+/**
+ * Fields whose value differs between the current and proposed config, in setConfig order
+ */
+export function diffConfig(current: VaultConfig, next: VaultConfig): (keyof VaultConfig)[] {
+  return CONFIG_FIELDS.filter((field) => !sameValue(field, current, next));
+}
+
+/**
+ * Flag proposed changes that are legal on-chain but likely to hurt depositors or stall
+ * the vault. Only changed fields are checked, so existing settings do not nag
+ */
+export function configWarnings(current: VaultConfig, next: VaultConfig): ConfigWarning[] {
+  const changed = new Set(diffConfig(current, next));
+  const warnings: ConfigWarning[] = [];
+
+  if (changed.has('intervalSeconds') && next.intervalSeconds === 0n) {
+    warnings.push({
+      field: 'intervalSeconds',
+      message: 'A zero interval lets cycles run back to back, spending the whole balance in a few blocks',
+    });
+  }
+  if (changed.has('maxSlippageBps') && next.maxSlippageBps > SLIPPAGE_WARNING_BPS) {
+    warnings.push({
+      field: 'maxSlippageBps',
+      message: 'Slippage above 10% leaves every cycle open to sandwiching',
+    });
+  }
+  if (changed.has('perCycleQuoteCap') && next.perCycleQuoteCap === 0n) {
+    warnings.push({ field: 'perCycleQuoteCap', message: 'A zero cap means no cycle can swap anything' });
+  }
+  if (changed.has('feeBps') && next.feeBps > FEE_CEILING_BPS) {
+    warnings.push({
+      field: 'feeBps',
+      message: 'Fee is above the 10% ceiling vaults have been created with',
+    });
+  }
+  if (changed.has('keeper') && current.keeper !== zeroAddress) {
+    warnings.push({
+      field: 'keeper',
+      message:
+        next.keeper === zeroAddress
+          ? 'Removing the keeper makes execution permissionless'
+          : 'The current keeper will no longer be able to execute cycles',
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Positional setConfig arguments that write `config` back unchanged
+ */
+export function setConfigArgs(config: VaultConfig) {
+  return [
+    config.intervalSeconds,
+    config.maxSlippageBps,
+    config.perCycleQuoteCap,
+    config.feeBps,
+    config.keeper,
+    config.paused,
+  ] as const;
+}
+
+/**
+ * Whether setConfig would queue `next` rather than write it all at once. Mirrors the
+ * contract: a higher fee, wider slippage or different keeper goes through the timelock
+ */
+export function isQueuedChange(current: VaultConfig, next: VaultConfig): boolean {
+  return (
+    next.feeBps > current.feeBps ||
+    next.maxSlippageBps > current.maxSlippageBps ||
+    !sameValue('keeper', current, next)
+  );
+}
+
+/**
+ * Split a setConfig call into the config it writes straight away and the change it queues.
+ * When anything is queued, fee and slippage cuts still apply at once and the keeper stays put
+ */
+export function splitConfigChange(
+  current: VaultConfig,
+  next: VaultConfig
+): { applied: VaultConfig; queued?: Omit<PendingConfig, 'eta'> } {
+  if (!isQueuedChange(current, next)) return { applied: next };
+
+  return {
+    applied: {
+      ...next,
+      maxSlippageBps: next.maxSlippageBps < current.maxSlippageBps ? next.maxSlippageBps : current.maxSlippageBps,
+      feeBps: next.feeBps < current.feeBps ? next.feeBps : current.feeBps,
+      keeper: current.keeper,
+    },
+    queued: { maxSlippageBps: next.maxSlippageBps, feeBps: next.feeBps, keeper: next.keeper },
+  };
+}
+
+/**
+ * The config a vault will have once its pending change is applied
+ */
+export function applyPending(current: VaultConfig, pending: PendingConfig): VaultConfig {
+  return { ...current, maxSlippageBps: pending.maxSlippageBps, feeBps: pending.feeBps, keeper: pending.keeper };
+}
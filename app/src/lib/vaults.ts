@@ -0,0 +1,54 @@
+import { decodeEventLog, type Address, type PublicClient, type TransactionReceipt } from 'viem';
+
+import { CONTRACT_ADDRESSES, VAULT_FACTORY_ABI } from './contracts';
+
+// Page size used when walking the factory's vault list
+const VAULT_PAGE_SIZE = 100n;
+
+/**
+ * Enumerate every vault deployed by the factory via getVaultsPaginated
+ */
+export async function fetchAllVaults(
+  publicClient: PublicClient,
+  factory: Address = CONTRACT_ADDRESSES.VAULT_FACTORY
+): Promise<Address[]> {
+  const vaults: Address[] = [];
+  let offset = 0n;
+
+  for (;;) {
+    const [page, total] = (await publicClient.readContract({
+      address: factory,
+      abi: VAULT_FACTORY_ABI,
+      functionName: 'getVaultsPaginated',
+      args: [offset, VAULT_PAGE_SIZE],
+    })) as readonly [readonly Address[], bigint];
+
+    vaults.push(...page);
+    offset += VAULT_PAGE_SIZE;
+
+    if (page.length === 0 || offset >= total) break;
+  }
+
+  return vaults;
+}
+
+/**
+ * Address of the vault deployed in a confirmed createVault or copy receipt, taken from
+ * its VaultCreated or VaultCopied log
+ */
+export function findDeployedVault(
+  receipt: TransactionReceipt,
+  factory: Address = CONTRACT_ADDRESSES.VAULT_FACTORY
+): Address | undefined {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factory.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: VAULT_FACTORY_ABI, data: log.data, topics: log.topics });
+      if (event.eventName === 'VaultCreated') return event.args.vault;
+      if (event.eventName === 'VaultCopied') return event.args.copy;
+    } catch {
+      // Not a factory event we know about
+    }
+  }
+  return undefined;
+}
@@ -50,4 +50,4 @@ export const config = createConfig({
   webSocketPublicClient,
 });
 
-export { chains };
+export { chains, somnia };
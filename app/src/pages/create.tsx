@@ -1,18 +1,26 @@
 import { useState } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
-import { useAccount, useContractWrite } from 'wagmi';
+import { useAccount, useContractWrite, usePublicClient } from 'wagmi';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { useQuery } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
-import { PlusIcon, ArrowLeftIcon } from 'lucide-react';
+import { PlusIcon, ArrowLeftIcon, AlertTriangleIcon, CheckCircleIcon } from 'lucide-react';
 
 import Layout from '@/components/Layout';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import TokenPicker from '@/components/TokenPicker';
+import { useTokenInfo } from '@/hooks/useTokenInfo';
 import { CONTRACT_ADDRESSES, VAULT_FACTORY_ABI } from '@/lib/contracts';
 import { parseTokenAmount } from '@/lib/format';
 import { isValidAddress } from '@/lib/format';
+import { fetchTokenInfo } from '@/lib/tokens';
+import { hasRoute } from '@/lib/quote';
+import { isPairPriced } from '@/lib/priceSource';
+import { findDeployedVault } from '@/lib/vaults';
+import { getErrorMessage } from '@/lib/errors';
 
 const createVaultSchema = z.object({
   baseToken: z.string().min(1, 'Base token address is required').refine(isValidAddress, 'Invalid address'),
@@ -29,12 +37,14 @@ type CreateVaultForm = z.infer<typeof createVaultSchema>;
 export default function CreateVault() {
   const { isConnected } = useAccount();
   const router = useRouter();
+  const publicClient = usePublicClient();
   const [isCreating, setIsCreating] = useState(false);
 
   const {
     register,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors, isValid },
   } = useForm<CreateVaultForm>({
     resolver: zodResolver(createVaultSchema),
@@ -64,13 +74,25 @@ export default function CreateVault() {
       return;
     }
 
+    if (!routeExists) {
+      toast.error('The router has no pair for these tokens');
+      return;
+    }
+
+    if (!isPriced) {
+      toast.error('No price feed is configured for these tokens');
+      return;
+    }
+
     try {
       setIsCreating(true);
       
-      const perCycleQuoteCapBigInt = parseTokenAmount(data.perCycleQuoteCap);
+      // The cap is denominated in the quote token, so parse it with its decimals
+      const quoteTokenInfo = await fetchTokenInfo(publicClient, data.quoteToken as `0x${string}`);
+      const perCycleQuoteCapBigInt = parseTokenAmount(data.perCycleQuoteCap, quoteTokenInfo.decimals);
       const keeperAddress = data.keeper && isValidAddress(data.keeper) ? data.keeper : '0x0000000000000000000000000000000000000000';
 
-      const tx = await createVault({
+      const { hash } = await createVault({
         args: [
           data.baseToken as `0x${string}`,
           data.quoteToken as `0x${string}`,
@@ -82,16 +104,17 @@ export default function CreateVault() {
         ],
       });
 
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') throw new Error('Create transaction reverted');
+
       toast.success('Vault created successfully!');
-      
-      // Redirect to home page after successful creation
-      setTimeout(() => {
-        router.push('/');
-      }, 2000);
-      
-    } catch (error: any) {
+
+      // Land on the new vault with the funding step open; the portfolio lists it either way
+      const vault = findDeployedVault(receipt);
+      router.push(vault ? `/vault/${vault}?setup=fund` : '/portfolio');
+    } catch (error) {
       console.error('Creation failed:', error);
-      toast.error(error?.message || 'Failed to create vault');
+      toast.error(getErrorMessage(error, 'Failed to create vault'));
     } finally {
       setIsCreating(false);
     }
@@ -99,6 +122,34 @@ export default function CreateVault() {
 
   const watchedValues = watch();
 
+  const { data: baseTokenInfo } = useTokenInfo(
+    isValidAddress(watchedValues.baseToken || '') ? (watchedValues.baseToken as `0x${string}`) : undefined
+  );
+  const { data: quoteTokenInfo } = useTokenInfo(
+    isValidAddress(watchedValues.quoteToken || '') ? (watchedValues.quoteToken as `0x${string}`) : undefined
+  );
+  const quoteLabel = quoteTokenInfo?.symbol || 'quote tokens';
+
+  // Vaults swap quote → base through the default router, so the pair must be routable there
+  const { data: routeExists, isLoading: isRouteLoading } = useQuery({
+    queryKey: ['route', baseTokenInfo?.address.toLowerCase(), quoteTokenInfo?.address.toLowerCase()],
+    queryFn: () =>
+      hasRoute(
+        publicClient,
+        { baseToken: baseTokenInfo?.address as `0x${string}`, quoteToken: quoteTokenInfo?.address as `0x${string}` },
+        quoteTokenInfo?.decimals as number
+      ),
+    enabled: !!baseTokenInfo && !!quoteTokenInfo,
+  });
+
+  // Shares are priced by valuing base holdings in quote, so the factory only deploys priced pairs
+  const { data: isPriced, isLoading: isPriceLoading } = useQuery({
+    queryKey: ['pricedPair', baseTokenInfo?.address.toLowerCase(), quoteTokenInfo?.address.toLowerCase()],
+    queryFn: () =>
+      isPairPriced(publicClient, baseTokenInfo?.address as `0x${string}`, quoteTokenInfo?.address as `0x${string}`),
+    enabled: !!baseTokenInfo && !!quoteTokenInfo && CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
+  });
+
   if (!isConnected) {
     return (
       <Layout>
@@ -158,39 +209,91 @@ export default function CreateVault() {
                 {/* Base Token */}
                 <div>
                   <label className="block text-sm font-medium mb-2">
-                    Base Token Address
+                    Base Token
                     <span className="text-red-400">*</span>
                   </label>
-                  <input
-                    {...register('baseToken')}
-                    type="text"
-                    className="input w-full"
-                    placeholder="0x..."
+                  <TokenPicker
+                    value={baseTokenInfo}
+                    exclude={quoteTokenInfo?.address}
+                    onChange={(token) => setValue('baseToken', token.address, { shouldValidate: true })}
                   />
                   {errors.baseToken && (
                     <p className="text-red-400 text-sm mt-1">{errors.baseToken.message}</p>
                   )}
-                  <p className="text-xs text-gray-400 mt-1">Token you want to buy (accumulate)</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {baseTokenInfo
+                      ? `${baseTokenInfo.name} (${baseTokenInfo.symbol}, ${baseTokenInfo.decimals} decimals)`
+                      : 'Token you want to buy (accumulate)'}
+                  </p>
                 </div>
 
                 {/* Quote Token */}
                 <div>
                   <label className="block text-sm font-medium mb-2">
-                    Quote Token Address
+                    Quote Token
                     <span className="text-red-400">*</span>
                   </label>
-                  <input
-                    {...register('quoteToken')}
-                    type="text"
-                    className="input w-full"
-                    placeholder="0x..."
+                  <TokenPicker
+                    value={quoteTokenInfo}
+                    exclude={baseTokenInfo?.address}
+                    onChange={(token) => setValue('quoteToken', token.address, { shouldValidate: true })}
                   />
                   {errors.quoteToken && (
                     <p className="text-red-400 text-sm mt-1">{errors.quoteToken.message}</p>
                   )}
-                  <p className="text-xs text-gray-400 mt-1">Token you want to sell (spend)</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {quoteTokenInfo
+                      ? `${quoteTokenInfo.name} (${quoteTokenInfo.symbol}, ${quoteTokenInfo.decimals} decimals)`
+                      : 'Token you want to sell (spend)'}
+                  </p>
                 </div>
               </div>
+
+              {baseTokenInfo && quoteTokenInfo && (
+                <div className="flex items-center gap-2 mt-4 text-sm">
+                  {isRouteLoading ? (
+                    <>
+                      <LoadingSpinner size="sm" />
+                      <span className="text-gray-400">Checking the router for a {quoteTokenInfo.symbol} → {baseTokenInfo.symbol} route...</span>
+                    </>
+                  ) : routeExists ? (
+                    <>
+                      <CheckCircleIcon className="w-4 h-4 text-green-400" />
+                      <span className="text-green-400">The router can swap {quoteTokenInfo.symbol} → {baseTokenInfo.symbol}</span>
+                    </>
+                  ) : (
+                    <>
+                      <AlertTriangleIcon className="w-4 h-4 text-red-400" />
+                      <span className="text-red-400">
+                        The router has no {quoteTokenInfo.symbol} → {baseTokenInfo.symbol} pair with liquidity, so this vault could never fill
+                      </span>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {baseTokenInfo && quoteTokenInfo && (
+                <div className="flex items-center gap-2 mt-2 text-sm">
+                  {isPriceLoading ? (
+                    <>
+                      <LoadingSpinner size="sm" />
+                      <span className="text-gray-400">Checking for a {baseTokenInfo.symbol} / {quoteTokenInfo.symbol} price feed...</span>
+                    </>
+                  ) : isPriced ? (
+                    <>
+                      <CheckCircleIcon className="w-4 h-4 text-green-400" />
+                      <span className="text-green-400">{baseTokenInfo.symbol} holdings can be valued in {quoteTokenInfo.symbol}</span>
+                    </>
+                  ) : (
+                    <>
+                      <AlertTriangleIcon className="w-4 h-4 text-red-400" />
+                      <span className="text-red-400">
+                        No {baseTokenInfo.symbol} / {quoteTokenInfo.symbol} price feed is configured, so shares could not be priced
+                      </span>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="card">
@@ -225,7 +328,7 @@ export default function CreateVault() {
                 {/* Per Cycle Cap */}
                 <div>
                   <label className="block text-sm font-medium mb-2">
-                    Per-Cycle Cap (tokens)
+                    Per-Cycle Cap ({quoteTokenInfo?.symbol || 'tokens'})
                     <span className="text-red-400">*</span>
                   </label>
                   <input
@@ -316,7 +419,7 @@ export default function CreateVault() {
                   <span className="text-gray-400">Frequency:</span> Every {watchedValues.intervalSeconds} seconds
                 </p>
                 <p>
-                  <span className="text-gray-400">Amount per cycle:</span> Up to {watchedValues.perCycleQuoteCap} quote tokens
+                  <span className="text-gray-400">Amount per cycle:</span> Up to {watchedValues.perCycleQuoteCap} {quoteLabel}
                 </p>
                 <p>
                   <span className="text-gray-400">Slippage tolerance:</span> {(watchedValues.maxSlippageBps / 100).toFixed(2)}%
@@ -333,7 +436,7 @@ export default function CreateVault() {
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={!isValid || isCreating}
+              disabled={!isValid || !routeExists || !isPriced || isCreating}
               className="btn-primary w-full py-4 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {isCreating ? (
@@ -0,0 +1,258 @@
+import { useRef, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { toast } from 'react-hot-toast';
+import {
+  AlertOctagonIcon,
+  AlertTriangleIcon,
+  CheckCircleIcon,
+  PauseIcon,
+  PlayIcon,
+  XCircleIcon,
+} from 'lucide-react';
+import type { Address } from 'viem';
+
+import Layout from '@/components/Layout';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useOwnedVaults } from '@/hooks/useOwnedVaults';
+import { MICRO_DCA_VAULT_ABI } from '@/lib/contracts';
+import { formatAddress } from '@/lib/format';
+import { getErrorMessage } from '@/lib/errors';
+
+type StepStatus = 'queued' | 'signing' | 'confirming' | 'done' | 'skipped' | 'failed' | 'cancelled';
+
+interface Step {
+  status: StepStatus;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<StepStatus, string> = {
+  queued: 'Queued',
+  signing: 'Waiting for signature',
+  confirming: 'Confirming',
+  done: 'Done',
+  skipped: 'Already in that state',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Pause or resume every vault the connected account owns. Each vault gets its own pause or
+ * unpause call: both check msg.sender, so a multicall contract cannot batch them on the owner's behalf
+ */
+export default function EmergencyStop() {
+  const { address: account, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { data, isLoading, isError, refetch } = useOwnedVaults(account);
+
+  const [running, setRunning] = useState<'pause' | 'resume'>();
+  const [steps, setSteps] = useState<Record<string, Step>>({});
+  const cancelled = useRef(false);
+
+  const vaults = data?.vaults || [];
+  const activeCount = vaults.filter((v) => !v.config.paused).length;
+  const pausedCount = vaults.length - activeCount;
+
+  const setStep = (vault: Address, step: Step) =>
+    setSteps((current) => ({ ...current, [vault.toLowerCase()]: step }));
+
+  const run = async (action: 'pause' | 'resume') => {
+    if (!account || !walletClient) return;
+
+    const paused = action === 'pause';
+    const targets = vaults.filter((v) => v.config.paused !== paused).map((v) => v.vault);
+    if (targets.length === 0) return;
+
+    cancelled.current = false;
+    setRunning(action);
+    setSteps(Object.fromEntries(targets.map((vault) => [vault.toLowerCase(), { status: 'queued' as const }])));
+
+    let succeeded = 0;
+    let failed = 0;
+
+    for (const vault of targets) {
+      if (cancelled.current) {
+        setStep(vault, { status: 'cancelled' });
+        continue;
+      }
+
+      try {
+        // Re-read right before sending, since pausing an already paused vault reverts
+        const current = await publicClient.readContract({
+          address: vault,
+          abi: MICRO_DCA_VAULT_ABI,
+          functionName: 'paused',
+        });
+        if (current === paused) {
+          setStep(vault, { status: 'skipped' });
+          continue;
+        }
+
+        setStep(vault, { status: 'signing' });
+        const { request } = await publicClient.simulateContract({
+          account,
+          address: vault,
+          abi: MICRO_DCA_VAULT_ABI,
+          functionName: paused ? 'pause' : 'unpause',
+        });
+        const hash = await walletClient.writeContract(request);
+
+        setStep(vault, { status: 'confirming' });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') throw new Error('Transaction reverted');
+
+        setStep(vault, { status: 'done' });
+        succeeded++;
+      } catch (error) {
+        console.error(`${action} failed for ${vault}:`, error);
+        setStep(vault, { status: 'failed', error: getErrorMessage(error, 'Transaction failed') });
+        failed++;
+      }
+    }
+
+    setRunning(undefined);
+    refetch();
+
+    const verb = paused ? 'Paused' : 'Resumed';
+    if (failed > 0) toast.error(`${verb} ${succeeded} vault(s); ${failed} failed`);
+    else if (succeeded > 0) toast.success(`${verb} ${succeeded} vault(s)`);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Emergency Stop | Micro-DCA Vault</title>
+        <meta name="description" content="Pause or resume all of your vaults at once" />
+      </Head>
+
+      <Layout>
+        <div className="flex items-center gap-3 mb-8">
+          <AlertOctagonIcon className="w-8 h-8 text-red-400" />
+          <div>
+            <h1 className="text-3xl font-bold">Emergency Stop</h1>
+            <p className="text-gray-400 mt-1">
+              Halt every vault you own during a router or token incident, then resume them when it is over
+            </p>
+          </div>
+        </div>
+
+        {!isConnected ? (
+          <div className="card text-center py-12">
+            <h3 className="text-lg font-medium mb-2">Connect Your Wallet</h3>
+            <p className="text-gray-400 mb-6">Connect the wallet that owns your vaults</p>
+            <div className="flex justify-center">
+              <ConnectButton />
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : isError ? (
+          <div className="card text-center py-12 text-gray-400">Failed to load your vaults</div>
+        ) : vaults.length === 0 ? (
+          <div className="card text-center py-12 text-gray-400">This account does not own any vaults</div>
+        ) : (
+          <>
+            <div className="card mb-6">
+              <p className="text-sm text-gray-400 mb-4">
+                Each vault needs its own transaction. Only the paused flag changes; every other setting is kept
+                as it is. You will be asked to sign once per vault.
+              </p>
+
+              {data && data.failedCount > 0 && (
+                <p className="flex items-center gap-2 text-sm text-yellow-400 mb-4">
+                  <AlertTriangleIcon className="w-4 h-4" />
+                  {data.failedCount} vault(s) could not be checked and are not listed. Reload before relying on
+                  this page.
+                </p>
+              )}
+
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => run('pause')}
+                  disabled={!!running || activeCount === 0 || !walletClient}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {running === 'pause' ? <LoadingSpinner size="sm" /> : <PauseIcon className="w-4 h-4" />}
+                  Pause all ({activeCount})
+                </button>
+                <button
+                  onClick={() => run('resume')}
+                  disabled={!!running || pausedCount === 0 || !walletClient}
+                  className="btn-secondary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {running === 'resume' ? <LoadingSpinner size="sm" /> : <PlayIcon className="w-4 h-4" />}
+                  Resume all ({pausedCount})
+                </button>
+                {running && (
+                  <button
+                    onClick={() => {
+                      cancelled.current = true;
+                    }}
+                    className="btn-outline inline-flex items-center gap-2"
+                  >
+                    Stop after current
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Vault</th>
+                    <th className="py-2 pr-4 font-medium">State</th>
+                    <th className="py-2 font-medium">Progress</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {vaults.map((vault) => {
+                    const step = steps[vault.vault.toLowerCase()];
+                    return (
+                      <tr key={vault.vault} className="border-b border-gray-700/50">
+                        <td className="py-3 pr-4">
+                          <Link href={`/vault/${vault.vault}`} className="font-medium hover:text-primary-400">
+                            {vault.quoteToken.symbol} → {vault.baseToken.symbol}
+                          </Link>
+                          <div className="text-xs text-gray-400">{formatAddress(vault.vault)}</div>
+                        </td>
+                        <td className="py-3 pr-4">
+                          {vault.config.paused ? (
+                            <span className="text-red-400">Paused</span>
+                          ) : (
+                            <span className="text-green-400">Active</span>
+                          )}
+                        </td>
+                        <td className="py-3">
+                          {step && (
+                            <span className="inline-flex items-center gap-2">
+                              {step.status === 'signing' || step.status === 'confirming' ? (
+                                <LoadingSpinner size="sm" />
+                              ) : step.status === 'done' ? (
+                                <CheckCircleIcon className="w-4 h-4 text-green-400" />
+                              ) : step.status === 'failed' ? (
+                                <XCircleIcon className="w-4 h-4 text-red-400" />
+                              ) : null}
+                              <span className={step.status === 'failed' ? 'text-red-400' : 'text-gray-300'}>
+                                {step.error || STATUS_LABELS[step.status]}
+                              </span>
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </Layout>
+    </>
+  );
+}
@@ -1,34 +1,56 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { useAccount, useContractRead } from 'wagmi';
+import { useAccount } from 'wagmi';
 import { PlusIcon, CopyIcon, TrendingUpIcon, ActivityIcon } from 'lucide-react';
 
 import Layout from '@/components/Layout';
 import VaultCard from '@/components/VaultCard';
+import VaultFilterBar from '@/components/VaultFilterBar';
+import ProtocolStatsGrid from '@/components/ProtocolStatsGrid';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import { CONTRACT_ADDRESSES, VAULT_FACTORY_ABI } from '@/lib/contracts';
+import { useExplorerVaults } from '@/hooks/useExplorerVaults';
+import {
+  filterVaults,
+  hasActiveFilters,
+  parseVaultFilters,
+  sortVaults,
+  toVaultQuery,
+  type VaultFilters,
+} from '@/lib/explorer';
 
 const VAULTS_PER_PAGE = 12;
 
 export default function Home() {
+  const router = useRouter();
   const { isConnected } = useAccount();
   const [currentPage, setCurrentPage] = useState(0);
 
-  // Fetch vaults with pagination
-  const { data: vaultData, isLoading } = useContractRead({
-    address: CONTRACT_ADDRESSES.VAULT_FACTORY,
-    abi: VAULT_FACTORY_ABI,
-    functionName: 'getVaultsPaginated',
-    args: [BigInt(currentPage * VAULTS_PER_PAGE), BigInt(VAULTS_PER_PAGE)],
-    enabled: isConnected && CONTRACT_ADDRESSES.VAULT_FACTORY !== '0x',
-    watch: true,
-  });
-
-  const vaults = vaultData?.[0] || [];
-  const totalVaults = Number(vaultData?.[1] || 0);
+  // Filters live in the URL so filtered views can be shared
+  const filters = useMemo(() => parseVaultFilters(router.query), [router.query]);
+
+  const { data: explorer, isLoading } = useExplorerVaults(isConnected);
+
+  const matching = useMemo(
+    () => sortVaults(filterVaults(explorer?.vaults || [], filters), filters.sort),
+    [explorer, filters]
+  );
+
+  const totalVaults = matching.length;
   const totalPages = Math.ceil(totalVaults / VAULTS_PER_PAGE);
+  const vaults = matching
+    .slice(currentPage * VAULTS_PER_PAGE, (currentPage + 1) * VAULTS_PER_PAGE)
+    .map((vault) => vault.address);
+
+  const setFilters = (next: VaultFilters) => {
+    setCurrentPage(0);
+    router.replace({ pathname: router.pathname, query: toVaultQuery(next) }, undefined, {
+      shallow: true,
+      scroll: false,
+    });
+  };
 
   return (
     <>
@@ -73,22 +95,7 @@ export default function Home() {
         </div>
 
         {/* Stats Section */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
-          <div className="card text-center">
-            <div className="text-3xl font-bold text-primary-400 mb-2">
-              {totalVaults.toLocaleString()}
-            </div>
-            <div className="text-gray-300">Total Vaults</div>
-          </div>
-          <div className="card text-center">
-            <div className="text-3xl font-bold text-green-400 mb-2">$2.1M</div>
-            <div className="text-gray-300">Total Volume</div>
-          </div>
-          <div className="card text-center">
-            <div className="text-3xl font-bold text-yellow-400 mb-2">15.2%</div>
-            <div className="text-gray-300">Avg. Performance</div>
-          </div>
-        </div>
+        <ProtocolStatsGrid />
 
         {/* Vaults Section */}
         <div className="mb-8">
@@ -108,6 +115,15 @@ export default function Home() {
             )}
           </div>
 
+          {isConnected && <VaultFilterBar filters={filters} onChange={setFilters} />}
+
+          {isConnected && explorer && (
+            <p className="text-sm text-gray-400 mb-4">
+              Showing {totalVaults} of {explorer.vaults.length} vaults
+              {explorer.failedCount > 0 && ` · ${explorer.failedCount} could not be loaded`}
+            </p>
+          )}
+
           {!isConnected ? (
             <div className="card text-center py-12">
               <h3 className="text-lg font-medium mb-2">Connect Your Wallet</h3>
@@ -120,6 +136,11 @@ export default function Home() {
             <div className="flex justify-center py-12">
               <LoadingSpinner />
             </div>
+          ) : vaults.length === 0 && hasActiveFilters(filters) ? (
+            <div className="card text-center py-12">
+              <h3 className="text-lg font-medium mb-2">No Matching Vaults</h3>
+              <p className="text-gray-400">Try widening or clearing the filters</p>
+            </div>
           ) : vaults.length === 0 ? (
             <div className="card text-center py-12">
               <h3 className="text-lg font-medium mb-2">No Vaults Found</h3>
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowDownIcon, TrophyIcon } from 'lucide-react';
+import { formatUnits } from 'viem';
+
+import Layout from '@/components/Layout';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import CopyVaultButton from '@/components/CopyVaultButton';
+import { useLeaderboard, type LeaderboardEntry } from '@/hooks/useLeaderboard';
+import { formatAddress, formatBps, formatDuration, formatTokenAmount } from '@/lib/format';
+
+type SortKey = 'improvement' | 'fills' | 'volume' | 'uptime' | 'copies';
+
+// Each key ranks higher values first; vaults without a value sink to the bottom
+const SORT_VALUES: Record<SortKey, (entry: LeaderboardEntry) => number | null> = {
+  improvement: (entry) => (entry.entryImprovementBps === null ? null : Number(entry.entryImprovementBps)),
+  fills: (entry) => entry.fillCount,
+  // Volumes are compared in whole quote tokens since vaults can use different quote assets
+  volume: (entry) => Number(formatUnits(entry.volume, entry.quoteToken.decimals)),
+  uptime: (entry) => entry.uptime,
+  copies: (entry) => entry.copyCount,
+};
+
+const COLUMNS: { key: SortKey; label: string; title: string }[] = [
+  { key: 'improvement', label: 'vs. Spot', title: 'Average entry price improvement over the current router price' },
+  { key: 'fills', label: 'Fills', title: 'Executed cycles' },
+  { key: 'volume', label: 'Volume', title: 'Total quote spent' },
+  { key: 'uptime', label: 'Uptime', title: 'Executed cycles out of those the interval allowed for' },
+  { key: 'copies', label: 'Copies', title: 'Times copied through the factory' },
+];
+
+export default function Leaderboard() {
+  const { data: entries, isLoading, isError } = useLeaderboard();
+  const [sortKey, setSortKey] = useState<SortKey>('improvement');
+
+  const sorted = [...(entries || [])].sort((a, b) => {
+    const valueA = SORT_VALUES[sortKey](a);
+    const valueB = SORT_VALUES[sortKey](b);
+    if (valueA === valueB) return b.fillCount - a.fillCount;
+    if (valueA === null) return 1;
+    if (valueB === null) return -1;
+    return valueB - valueA;
+  });
+
+  return (
+    <>
+      <Head>
+        <title>Leaderboard | Micro-DCA Vault</title>
+        <meta name="description" content="Top DCA strategies ranked by performance, consistency and copies" />
+      </Head>
+
+      <Layout>
+        <div className="flex items-center gap-3 mb-8">
+          <TrophyIcon className="w-8 h-8 text-yellow-400" />
+          <div>
+            <h1 className="text-3xl font-bold">Leaderboard</h1>
+            <p className="text-gray-400 mt-1">
+              Strategies ranked by entry price, consistency and how often they are copied
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : isError ? (
+          <div className="card text-center py-12 text-gray-400">Failed to load the leaderboard</div>
+        ) : sorted.length === 0 ? (
+          <div className="card text-center py-12 text-gray-400">No strategies to rank yet</div>
+        ) : (
+          <div className="card overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">#</th>
+                  <th className="py-2 pr-4 font-medium">Strategy</th>
+                  {COLUMNS.map((column) => (
+                    <th key={column.key} className="py-2 pr-4 font-medium text-right" title={column.title}>
+                      <button
+                        onClick={() => setSortKey(column.key)}
+                        className={`inline-flex items-center gap-1 ${
+                          sortKey === column.key ? 'text-white' : 'hover:text-white'
+                        }`}
+                      >
+                        {column.label}
+                        {sortKey === column.key && <ArrowDownIcon className="w-3 h-3" />}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((entry, i) => (
+                  <tr key={entry.vault} className="border-b border-gray-700/50">
+                    <td className="py-3 pr-4 text-gray-400">{i + 1}</td>
+                    <td className="py-3 pr-4">
+                      <Link href={`/vault/${entry.vault}`} className="font-medium hover:text-primary-400">
+                        {entry.quoteToken.symbol} → {entry.baseToken.symbol}
+                      </Link>
+                      <div className="text-xs text-gray-400">
+                        by {formatAddress(entry.owner)} · every{' '}
+                        {formatDuration(Number(entry.config.intervalSeconds))}
+                        {entry.config.paused && <span className="text-red-400"> · paused</span>}
+                      </div>
+                    </td>
+                    <td
+                      className={`py-3 pr-4 text-right ${
+                        entry.entryImprovementBps === null
+                          ? 'text-gray-400'
+                          : entry.entryImprovementBps >= 0n
+                            ? 'text-green-400'
+                            : 'text-red-400'
+                      }`}
+                      title={entry.spotPrice === null ? 'No router price for this pair' : undefined}
+                    >
+                      {entry.entryImprovementBps === null
+                        ? '—'
+                        : `${entry.entryImprovementBps > 0n ? '+' : ''}${formatBps(entry.entryImprovementBps)}`}
+                    </td>
+                    <td className="py-3 pr-4 text-right">{entry.fillCount}</td>
+                    <td className="py-3 pr-4 text-right">
+                      {formatTokenAmount(entry.volume, entry.quoteToken.decimals, 2)} {entry.quoteToken.symbol}
+                    </td>
+                    <td className="py-3 pr-4 text-right" title={`${entry.missedIntervals} missed intervals`}>
+                      {entry.uptime === null ? '—' : `${(entry.uptime * 100).toFixed(1)}%`}
+                    </td>
+                    <td className="py-3 pr-4 text-right">{entry.copyCount}</td>
+                    <td className="py-3 text-right">
+                      <CopyVaultButton vault={entry.vault} owner={entry.owner} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+import Head from 'next/head';
+import Link from 'next/link';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useAccount } from 'wagmi';
+import { FolderIcon, PlusIcon } from 'lucide-react';
+import type { Address } from 'viem';
+
+import Layout from '@/components/Layout';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { useTokenInfos } from '@/hooks/useTokenInfo';
+import { formatTokenAmount, formatAddress } from '@/lib/format';
+
+export default function Portfolio() {
+  const { address: account, isConnected } = useAccount();
+  const { data: positions, isLoading, isError } = usePortfolio(account);
+
+  // Resolve metadata for every token that appears in the portfolio, including share tokens
+  const tokenAddresses = Array.from(
+    new Set((positions || []).flatMap((p) => [p.baseToken, p.quoteToken, p.vault]))
+  ) as Address[];
+  const { tokens, isLoading: tokensLoading } = useTokenInfos(tokenAddresses);
+
+  const symbolOf = (token: Address) =>
+    tokens.get(token.toLowerCase())?.symbol || formatAddress(token);
+
+  const format = (amount: bigint, token: Address) => {
+    const info = tokens.get(token.toLowerCase());
+    return info ? formatTokenAmount(amount, info.decimals) : '—';
+  };
+
+  // Redeemable value summed per quote token, since quote tokens can differ between vaults
+  const valueByQuote = new Map<Address, bigint>();
+  for (const position of positions || []) {
+    valueByQuote.set(
+      position.quoteToken,
+      (valueByQuote.get(position.quoteToken) || 0n) + position.redeemValue
+    );
+  }
+
+  const heldCount = (positions || []).filter((p) => p.shares > 0n).length;
+  const createdCount = (positions || []).filter((p) => p.isCreator).length;
+  const copiedCount = (positions || []).filter((p) => p.isCopier).length;
+
+  return (
+    <>
+      <Head>
+        <title>Portfolio | Micro-DCA Vault</title>
+        <meta name="description" content="Your DCA vaults and share positions" />
+      </Head>
+
+      <Layout>
+        <div className="flex items-center gap-3 mb-8">
+          <FolderIcon className="w-8 h-8 text-primary-400" />
+          <div>
+            <h1 className="text-3xl font-bold">Portfolio</h1>
+            <p className="text-gray-400 mt-1">Vaults you created, copied or hold shares in</p>
+          </div>
+        </div>
+
+        {!isConnected ? (
+          <div className="card text-center py-12">
+            <h3 className="text-lg font-medium mb-2">Connect Your Wallet</h3>
+            <p className="text-gray-400 mb-6">Connect your wallet to view your positions</p>
+            <div className="flex justify-center">
+              <ConnectButton />
+            </div>
+          </div>
+        ) : isLoading || tokensLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : isError ? (
+          <div className="card text-center py-12 text-gray-400">
+            Failed to load portfolio
+          </div>
+        ) : !positions || positions.length === 0 ? (
+          <div className="card text-center py-12">
+            <h3 className="text-lg font-medium mb-2">No Positions Yet</h3>
+            <p className="text-gray-400 mb-6">
+              Create a vault or deposit into an existing one to get started
+            </p>
+            <Link href="/create" className="btn-primary inline-flex items-center gap-2">
+              <PlusIcon className="w-4 h-4" />
+              Create Vault
+            </Link>
+          </div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <div className="card">
+                <div className="text-sm text-gray-400">Redeemable Value</div>
+                {Array.from(valueByQuote.entries()).map(([token, value]) => (
+                  <div key={token} className="text-xl font-semibold">
+                    {format(value, token)} {symbolOf(token)}
+                  </div>
+                ))}
+              </div>
+              <div className="card">
+                <div className="text-sm text-gray-400">Positions</div>
+                <div className="text-xl font-semibold">{heldCount}</div>
+              </div>
+              <div className="card">
+                <div className="text-sm text-gray-400">Vaults Created</div>
+                <div className="text-xl font-semibold">{createdCount}</div>
+              </div>
+              <div className="card">
+                <div className="text-sm text-gray-400">Vaults Copied</div>
+                <div className="text-xl font-semibold">{copiedCount}</div>
+              </div>
+            </div>
+
+            {/* Positions */}
+            <div className="card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Vault</th>
+                    <th className="py-2 pr-4 font-medium text-right">Shares</th>
+                    <th className="py-2 pr-4 font-medium text-right">Redeem Value</th>
+                    <th className="py-2 pr-4 font-medium text-right">Base Acquired (your share)</th>
+                    <th className="py-2 font-medium text-right"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {positions.map((position) => (
+                    <tr key={position.vault} className="border-b border-gray-700/50">
+                      <td className="py-3 pr-4">
+                        <div className="font-medium">
+                          {symbolOf(position.quoteToken)} → {symbolOf(position.baseToken)}
+                        </div>
+                        <div className="flex gap-2 text-xs text-gray-400">
+                          {formatAddress(position.vault)}
+                          {position.isCreator && <span className="text-primary-400">Created</span>}
+                          {position.isCopier && <span className="text-green-400">Copied</span>}
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 text-right">{format(position.shares, position.vault)}</td>
+                      <td className="py-3 pr-4 text-right">
+                        {format(position.redeemValue, position.quoteToken)} {symbolOf(position.quoteToken)}
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        {format(position.baseShare, position.baseToken)} {symbolOf(position.baseToken)}
+                      </td>
+                      <td className="py-3 text-right">
+                        <Link href={`/vault/${position.vault}`} className="btn-secondary text-sm">
+                          View
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </Layout>
+    </>
+  );
+}
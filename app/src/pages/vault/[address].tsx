@@ -0,0 +1,337 @@
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { useAccount } from 'wagmi';
+import { AlertTriangleIcon, ArrowLeftIcon, ClockIcon, PauseIcon, PlayIcon } from 'lucide-react';
+import { zeroAddress, type Address } from 'viem';
+
+import Layout from '@/components/Layout';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import FillHistoryTable from '@/components/FillHistoryTable';
+import FillHistoryChart from '@/components/FillHistoryChart';
+import VaultPerformance from '@/components/VaultPerformance';
+import VaultActions from '@/components/VaultActions';
+import OwnerConfigPanel from '@/components/OwnerConfigPanel';
+import GuardianPanel from '@/components/GuardianPanel';
+import PauseControls from '@/components/PauseControls';
+import PendingConfigNotice from '@/components/PendingConfigNotice';
+import GaslessExecutionPanel from '@/components/GaslessExecutionPanel';
+import ExecuteCycleButton from '@/components/ExecuteCycleButton';
+import CopiedFromBadge from '@/components/CopiedFromBadge';
+import LineageTree from '@/components/LineageTree';
+import FundVaultPrompt from '@/components/FundVaultPrompt';
+import { useVaultInfo } from '@/hooks/useVaultInfo';
+import { useFillHistory } from '@/hooks/useFillHistory';
+import { useTokenInfo } from '@/hooks/useTokenInfo';
+import { useVaultLineage } from '@/hooks/useVaultLineage';
+import { useVaultAssets } from '@/hooks/useVaultAssets';
+import {
+  formatTokenAmount,
+  formatBps,
+  formatDuration,
+  formatAddress,
+  formatDate,
+  getTimeUntilNext,
+  isValidAddress,
+} from '@/lib/format';
+
+export default function VaultDetail() {
+  const router = useRouter();
+  const { address: account } = useAccount();
+
+  const vaultAddress = typeof router.query.address === 'string' && isValidAddress(router.query.address)
+    ? (router.query.address as Address)
+    : undefined;
+
+  const { vault, isLoading, isError } = useVaultInfo(vaultAddress);
+  const { data: fills, isLoading: fillsLoading } = useFillHistory(vaultAddress);
+
+  const { data: baseToken, isLoading: baseLoading } = useTokenInfo(vault?.baseToken);
+  const { data: quoteToken, isLoading: quoteLoading } = useTokenInfo(vault?.quoteToken);
+  const { source } = useVaultLineage(vaultAddress);
+  const { data: assets } = useVaultAssets(vault);
+
+  const isOwner = !!account && !!vault && account.toLowerCase() === vault.owner.toLowerCase();
+  const isGuardian =
+    !!account && !!vault && vault.guardian !== zeroAddress && account.toLowerCase() === vault.guardian.toLowerCase();
+
+  if (!router.isReady || isLoading || (vault && (baseLoading || quoteLoading))) {
+    return (
+      <Layout>
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!vaultAddress || isError || !vault || !baseToken || !quoteToken) {
+    return (
+      <Layout>
+        <Head>
+          <title>Vault Not Found | Micro-DCA Vault</title>
+        </Head>
+        <div className="max-w-md mx-auto">
+          <div className="card text-center">
+            <h1 className="text-2xl font-bold mb-4">Vault Not Found</h1>
+            <p className="text-gray-400 mb-6">
+              This address is not a Micro-DCA vault or could not be loaded.
+            </p>
+            <button onClick={() => router.push('/')} className="btn-secondary">
+              Go Back
+            </button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { config } = vault;
+  // Set by the create and copy flows when they route here
+  const showSetup = router.query.setup === 'fund' && isOwner;
+  const baseSymbol = baseToken.symbol;
+  const quoteSymbol = quoteToken.symbol;
+  const timeUntilNext = getTimeUntilNext(vault.nextExecTime);
+
+  return (
+    <>
+      <Head>
+        <title>{quoteSymbol} → {baseSymbol} Vault | Micro-DCA Vault</title>
+      </Head>
+
+      <Layout>
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <button onClick={() => router.back()} className="btn-secondary p-2">
+            <ArrowLeftIcon className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold">
+              {quoteSymbol} → {baseSymbol}
+            </h1>
+            <p className="text-gray-400 mt-1">
+              {formatAddress(vault.address)} · owned by {isOwner ? 'you' : formatAddress(vault.owner)}
+            </p>
+            {source && (
+              <div className="mt-2">
+                <CopiedFromBadge source={source} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {showSetup && (
+          <FundVaultPrompt
+            vault={vault}
+            quoteToken={quoteToken}
+            onDismiss={() => router.replace(`/vault/${vault.address}`, undefined, { shallow: true })}
+          />
+        )}
+
+        {vault.pendingConfig && (
+          <PendingConfigNotice
+            address={vault.address}
+            config={config}
+            pendingConfig={vault.pendingConfig}
+            isOwner={isOwner}
+          />
+        )}
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+          <div className="card">
+            <div className="text-sm text-gray-400">Total Assets</div>
+            <div className="text-xl font-semibold">
+              {formatTokenAmount(vault.totalAssets, quoteToken.decimals)} {quoteSymbol}
+            </div>
+            {assets && (
+              <div className="text-xs text-gray-400 mt-1 space-y-0.5">
+                <div>
+                  {formatTokenAmount(assets.quoteBalance, quoteToken.decimals)} {quoteSymbol}
+                </div>
+                <div>
+                  + {formatTokenAmount(assets.baseBalance, baseToken.decimals)} {baseSymbol} ≈{' '}
+                  {assets.baseValue === null
+                    ? 'no price'
+                    : `${formatTokenAmount(assets.baseValue, quoteToken.decimals)} ${quoteSymbol}`}
+                </div>
+                {!assets.fresh && (
+                  <div className="flex items-center gap-1 text-yellow-400">
+                    <AlertTriangleIcon className="w-3 h-3" />
+                    {assets.baseValue === null ? 'No price' : 'Stale price'}: deposits and withdrawals are paused.
+                    Exit in kind to take your {quoteSymbol} and {baseSymbol}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="card">
+            <div className="text-sm text-gray-400">Quote Spent</div>
+            <div className="text-xl font-semibold">
+              {formatTokenAmount(vault.totalFilledQuote, quoteToken.decimals)} {quoteSymbol}
+            </div>
+          </div>
+          <div className="card">
+            <div className="text-sm text-gray-400">Base Acquired</div>
+            <div className="text-xl font-semibold">
+              {formatTokenAmount(vault.totalFilledBase, baseToken.decimals)} {baseSymbol}
+            </div>
+          </div>
+          <div className="card">
+            <div className="text-sm text-gray-400">Fills</div>
+            <div className="text-xl font-semibold">{fills?.length ?? '—'}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main column */}
+          <div className="lg:col-span-2 space-y-6">
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Performance</h2>
+              <VaultPerformance
+                vault={vault}
+                fills={fills}
+                baseToken={baseToken}
+                quoteToken={quoteToken}
+              />
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Fills Over Time</h2>
+              <FillHistoryChart
+                fills={fills}
+                isLoading={fillsLoading}
+                baseToken={baseToken}
+                quoteToken={quoteToken}
+              />
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Fill History</h2>
+              <FillHistoryTable
+                fills={fills}
+                isLoading={fillsLoading}
+                baseToken={baseToken}
+                quoteToken={quoteToken}
+              />
+            </div>
+
+            {isOwner && (
+              <div className="card">
+                <h2 className="text-xl font-semibold mb-4">Owner Controls</h2>
+                <OwnerConfigPanel
+                  address={vault.address}
+                  config={config}
+                  quoteDecimals={quoteToken.decimals}
+                  quoteSymbol={quoteSymbol}
+                  pendingConfig={vault.pendingConfig}
+                />
+                <div className="border-t border-gray-700 mt-6 pt-6">
+                  <GuardianPanel address={vault.address} guardian={vault.guardian} />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Side column */}
+          <div className="space-y-6">
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Status</h2>
+              <div className="flex items-center gap-2 mb-4 text-sm">
+                {config.paused ? (
+                  <>
+                    <PauseIcon className="w-4 h-4 text-red-400" />
+                    <span className="text-red-400">Paused</span>
+                  </>
+                ) : timeUntilNext.isReady ? (
+                  <>
+                    <PlayIcon className="w-4 h-4 text-green-400" />
+                    <span className="text-green-400">Ready to Execute</span>
+                  </>
+                ) : (
+                  <>
+                    <ClockIcon className="w-4 h-4 text-yellow-400" />
+                    <span className="text-yellow-400">Next: {timeUntilNext.formatted}</span>
+                  </>
+                )}
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Last execution:</span>
+                  <span>{formatDate(vault.lastExec)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Interval:</span>
+                  <span>{formatDuration(Number(config.intervalSeconds))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Max Slippage:</span>
+                  <span>{formatBps(config.maxSlippageBps)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Per Cycle Cap:</span>
+                  <span>{formatTokenAmount(config.perCycleQuoteCap, quoteToken.decimals, 0)} {quoteSymbol}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Fee:</span>
+                  <span>{formatBps(config.feeBps)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Keeper:</span>
+                  <span>{config.keeper === zeroAddress ? 'Permissionless' : formatAddress(config.keeper)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Guardian:</span>
+                  <span>
+                    {vault.guardian === zeroAddress ? 'None' : isGuardian ? 'You' : formatAddress(vault.guardian)}
+                  </span>
+                </div>
+              </div>
+
+              {(isOwner || isGuardian) && (
+                <div className="mt-4">
+                  <PauseControls address={vault.address} paused={config.paused} canUnpause={isOwner} />
+                </div>
+              )}
+
+              {timeUntilNext.isReady && !config.paused && (
+                <div className="mt-4">
+                  <ExecuteCycleButton
+                    vault={vault.address}
+                    config={config}
+                    baseToken={baseToken}
+                    quoteToken={quoteToken}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Your Position</h2>
+              <VaultActions
+                address={vault.address}
+                baseToken={baseToken}
+                quoteToken={quoteToken}
+                assets={assets}
+              />
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Gasless Execution</h2>
+              <GaslessExecutionPanel
+                vault={vault}
+                baseToken={baseToken}
+                quoteToken={quoteToken}
+              />
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-4">Lineage</h2>
+              <LineageTree vault={vault.address} />
+            </div>
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+}
@@ -6,6 +6,7 @@ import {console} from "forge-std/console.sol";
 import {VaultFactory} from "../src/VaultFactory.sol";
 import {Relayer} from "../src/Relayer.sol";
 import {MicroDcaVault} from "../src/MicroDcaVault.sol";
+import {ChainlinkPriceSource} from "../src/ChainlinkPriceSource.sol";
 
 /**
  * @title Deploy
@@ -19,11 +20,13 @@ contract Deploy is Script {
     uint256 constant DEFAULT_PER_CYCLE_CAP = 100e18; // 100 tokens
     uint256 constant DEFAULT_FEE_BPS = 10; // 0.1%
     uint256 constant DEFAULT_RELAYER_FEE_BPS = 25; // 0.25%
+    uint256 constant DEFAULT_PRICE_MAX_AGE = 1 hours; // Typical Chainlink heartbeat
 
     // Deployment addresses (will be set from environment or defaults)
     address router;
     address baseToken;
     address quoteToken;
+    address priceFeed;
 
     function setUp() public {
         // Set router address from environment or use a default
@@ -32,6 +35,9 @@ contract Deploy is Script {
         // Set token addresses from environment (these should be set for mainnet deployments)
         baseToken = vm.envOr("BASE_TOKEN_ADDRESS", address(0x0)); // Must be set for production
         quoteToken = vm.envOr("QUOTE_TOKEN_ADDRESS", address(0x0)); // Must be set for production
+
+        // Chainlink-style feed pricing one base token in quote tokens, needed for the example vault
+        priceFeed = vm.envOr("PRICE_FEED_ADDRESS", address(0x0));
     }
 
     function run() external {
@@ -44,8 +50,12 @@ contract Deploy is Script {
         
         vm.startBroadcast(deployerPrivateKey);
 
+        // Deploy the price source vaults use to value their base holdings
+        ChainlinkPriceSource priceSource = new ChainlinkPriceSource(deployer);
+        console.log("ChainlinkPriceSource deployed at:", address(priceSource));
+
         // Deploy VaultFactory
-        VaultFactory factory = new VaultFactory(router);
+        VaultFactory factory = new VaultFactory(router, address(priceSource));
         console.log("VaultFactory deployed at:", address(factory));
 
         // Deploy Relayer
@@ -53,10 +63,13 @@ contract Deploy is Script {
         console.log("Relayer deployed at:", address(relayer));
 
         // Deploy example vault if tokens are specified
-        if (baseToken != address(0) && quoteToken != address(0)) {
+        if (baseToken != address(0) && quoteToken != address(0) && priceFeed != address(0)) {
             console.log("Creating example vault...");
             console.log("Base token:", baseToken);
             console.log("Quote token:", quoteToken);
+            console.log("Price feed:", priceFeed);
+
+            priceSource.setFeed(baseToken, quoteToken, priceFeed, DEFAULT_PRICE_MAX_AGE);
             
             address exampleVault = factory.createVault(
                 baseToken,
@@ -70,7 +83,7 @@ contract Deploy is Script {
             
             console.log("Example vault deployed at:", exampleVault);
         } else {
-            console.log("Skipping example vault deployment (no tokens specified)");
+            console.log("Skipping example vault deployment (tokens or price feed not specified)");
         }
 
         vm.stopBroadcast();
@@ -80,6 +93,7 @@ contract Deploy is Script {
         console.log("Network:", block.chainid);
         console.log("VaultFactory:", address(factory));
         console.log("Relayer:", address(relayer));
+        console.log("ChainlinkPriceSource:", address(priceSource));
         console.log("Router:", router);
         
         // Save addresses to file for frontend
@@ -127,13 +141,18 @@ contract DeployMocks is Script {
         // Add liquidity to mock router
         mockRouter.addLiquidity(address(quoteToken), address(baseToken), 1e18); // 1:1 rate
 
+        // Price feed matching the router's 1:1 rate
+        MockPriceFeed priceFeed = new MockPriceFeed(8, 1e8);
+        console.log("Mock price feed deployed at:", address(priceFeed));
+
         vm.stopBroadcast();
 
         // Save mock addresses
         string memory mockAddresses = string(abi.encodePacked(
             "BASE_TOKEN_ADDRESS=", vm.toString(address(baseToken)), "\n",
             "QUOTE_TOKEN_ADDRESS=", vm.toString(address(quoteToken)), "\n",
-            "ROUTER_ADDRESS=", vm.toString(address(mockRouter)), "\n"
+            "ROUTER_ADDRESS=", vm.toString(address(mockRouter)), "\n",
+            "PRICE_FEED_ADDRESS=", vm.toString(address(priceFeed)), "\n"
         ));
         
         vm.writeFile(".env.mocks", mockAddresses);
@@ -196,6 +215,21 @@ contract MockRouter {
         rates[token1][token0] = 1e18 * 1e18 / rate; // Inverse rate
     }
     
+    function getAmountsOut(
+        uint amountIn,
+        address[] calldata path
+    ) public view returns (uint[] memory amounts) {
+        require(path.length == 2, "INVALID_PATH");
+        
+        uint256 rate = rates[path[0]][path[1]];
+        require(rate > 0, "NO_LIQUIDITY");
+        
+        // Simple rate calculation with 0.3% fee (like Uniswap)
+        amounts = new uint[](2);
+        amounts[0] = amountIn;
+        amounts[1] = (amountIn * rate * 997) / (1000 * 1e18);
+    }
+    
     function swapExactTokensForTokens(
         uint amountIn,
         uint amountOutMin,
@@ -204,15 +238,10 @@ contract MockRouter {
         uint deadline
     ) external returns (uint[] memory amounts) {
         require(deadline >= block.timestamp, "EXPIRED");
-        require(path.length == 2, "INVALID_PATH");
         
         address tokenIn = path[0];
         address tokenOut = path[1];
-        uint256 rate = rates[tokenIn][tokenOut];
-        require(rate > 0, "NO_LIQUIDITY");
-        
-        // Simple rate calculation with 0.3% fee (like Uniswap)
-        uint256 amountOut = (amountIn * rate * 997) / (1000 * 1e18);
+        uint256 amountOut = getAmountsOut(amountIn, path)[1];
         require(amountOut >= amountOutMin, "INSUFFICIENT_OUTPUT");
         
         // Transfer tokens
@@ -224,3 +253,25 @@ contract MockRouter {
         amounts[1] = amountOut;
     }
 }
+
+contract MockPriceFeed {
+    uint8 public decimals;
+    int256 public answer;
+    address public owner;
+
+    constructor(uint8 _decimals, int256 _answer) {
+        decimals = _decimals;
+        answer = _answer;
+        owner = msg.sender;
+    }
+
+    function setAnswer(int256 _answer) external {
+        require(msg.sender == owner, "NOT_OWNER");
+        answer = _answer;
+    }
+
+    // Always reports the current block so the mock never goes stale
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (1, answer, block.timestamp, block.timestamp, 1);
+    }
+}
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {IAggregatorV3} from "./interfaces/IAggregatorV3.sol";
+import {IPriceSource} from "./interfaces/IPriceSource.sol";
+import {Errors} from "./libraries/Errors.sol";
+
+/**
+ * @title ChainlinkPriceSource
+ * @notice Prices base tokens in quote terms from Chainlink-style feeds, one feed per pair
+ * @dev Each feed must report the price of one whole base token in quote tokens
+ */
+contract ChainlinkPriceSource is IPriceSource, Ownable {
+    /**
+     * @notice Feed registered for a token pair
+     * @param aggregator Chainlink-style price feed
+     * @param maxAge Oldest answer, in seconds, still treated as fresh
+     * @param scale 10^(feed decimals + base decimals), fixed when the feed is set
+     * @param quoteUnit 10^(quote decimals)
+     */
+    struct Feed {
+        IAggregatorV3 aggregator;
+        uint256 maxAge;
+        uint256 scale;
+        uint256 quoteUnit;
+    }
+
+    /// @notice Feed for each base => quote pair
+    mapping(address => mapping(address => Feed)) private _feeds;
+
+    /**
+     * @notice Emitted when a pair's feed is set or replaced
+     * @param base Base token address
+     * @param quote Quote token address
+     * @param aggregator Feed address
+     * @param maxAge Oldest answer, in seconds, still treated as fresh
+     */
+    event FeedUpdated(address indexed base, address indexed quote, address aggregator, uint256 maxAge);
+
+    /**
+     * @notice Deploy the price source
+     * @param _owner Address allowed to manage feeds
+     */
+    constructor(address _owner) Ownable(_owner) {}
+
+    /**
+     * @notice Set or replace the feed for a token pair (owner only)
+     * @dev A pair can be pointed at a new feed but never removed, since live vaults on the pair
+     *      price their shares through it
+     * @param base Base token address
+     * @param quote Quote token address
+     * @param aggregator Feed quoting one base token in quote tokens
+     * @param maxAge Oldest answer, in seconds, still treated as fresh; match the feed's heartbeat
+     */
+    function setFeed(address base, address quote, address aggregator, uint256 maxAge) external onlyOwner {
+        if (base == address(0) || quote == address(0) || aggregator == address(0)) revert Errors.ZeroAddress();
+        if (maxAge == 0) revert Errors.InvalidParams();
+
+        _feeds[base][quote] = Feed({
+            aggregator: IAggregatorV3(aggregator),
+            maxAge: maxAge,
+            scale: 10 ** (uint256(IAggregatorV3(aggregator).decimals()) + IERC20Metadata(base).decimals()),
+            quoteUnit: 10 ** uint256(IERC20Metadata(quote).decimals())
+        });
+
+        emit FeedUpdated(base, quote, aggregator, maxAge);
+    }
+
+    /**
+     * @notice Get the feed registered for a token pair
+     * @return aggregator Feed address (zero when the pair is unsupported)
+     * @return maxAge Oldest answer, in seconds, still treated as fresh
+     */
+    function getFeed(address base, address quote) external view returns (address aggregator, uint256 maxAge) {
+        Feed storage feed = _feeds[base][quote];
+        return (address(feed.aggregator), feed.maxAge);
+    }
+
+    /// @inheritdoc IPriceSource
+    function getQuote(
+        address base,
+        address quote,
+        uint256 baseAmount
+    ) external view returns (uint256 quoteAmount, bool fresh) {
+        Feed storage feed = _feeds[base][quote];
+        if (address(feed.aggregator) == address(0)) revert Errors.UnsupportedPair();
+
+        (, int256 answer, , uint256 updatedAt, ) = feed.aggregator.latestRoundData();
+        if (answer <= 0) revert Errors.InvalidPrice();
+
+        quoteAmount = Math.mulDiv(baseAmount, uint256(answer) * feed.quoteUnit, feed.scale);
+        fresh = updatedAt != 0 && updatedAt <= block.timestamp && block.timestamp - updatedAt <= feed.maxAge;
+    }
+
+    /// @inheritdoc IPriceSource
+    function isSupported(address base, address quote) external view returns (bool) {
+        return address(_feeds[base][quote].aggregator) != address(0);
+    }
+}
@@ -7,7 +7,9 @@ import {ERC4626} from "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.so
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
 import {IRouter} from "./interfaces/IRouter.sol";
+import {IPriceSource} from "./interfaces/IPriceSource.sol";
 import {Errors} from "./libraries/Errors.sol";
 
 /**
@@ -20,6 +22,9 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
 
     /// @notice DEX router for token swaps
     IRouter public immutable router;
+
+    /// @notice Oracle valuing base token holdings in quote terms for share pricing
+    IPriceSource public immutable priceSource;
     
     /// @notice Token being purchased (target asset)
     IERC20 public immutable baseToken;
@@ -45,6 +50,9 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
     /// @notice Emergency pause flag
     bool public paused;
 
+    /// @notice Address allowed to pause, but not unpause or reconfigure (zero = owner only)
+    address public guardian;
+
     /// @notice Timestamp of last cycle execution
     uint256 public lastExec;
     
@@ -54,6 +62,26 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
     /// @notice Total base tokens acquired across all cycles
     uint256 public totalFilledBase;
 
+    /// @notice Delay before a fee increase, slippage widening or keeper change takes effect
+    uint256 public constant CONFIG_DELAY = 2 days;
+
+    /// @notice How long after its ETA a queued change can still be applied before it lapses
+    uint256 public constant CONFIG_GRACE_PERIOD = 7 days;
+
+    /**
+     * @notice Config change waiting out CONFIG_DELAY
+     * @dev eta is zero when nothing is queued
+     */
+    struct PendingConfig {
+        uint256 maxSlippageBps;
+        uint256 feeBps;
+        address keeper;
+        uint256 eta;
+    }
+
+    /// @notice Queued change to the time-locked fields
+    PendingConfig private _pendingConfig;
+
     /**
      * @notice Emitted when a DCA cycle is executed
      * @param timestamp Block timestamp of execution
@@ -80,25 +108,80 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
         bool paused
     );
 
+    /**
+     * @notice Emitted when a change to the time-locked fields is queued
+     * @param maxSlippageBps Maximum slippage tolerance once applied
+     * @param feeBps Protocol fee rate once applied
+     * @param keeper Keeper address once applied
+     * @param eta Earliest timestamp the change can be applied
+     */
+    event ConfigQueued(uint256 maxSlippageBps, uint256 feeBps, address keeper, uint256 eta);
+
+    /**
+     * @notice Emitted when the owner cancels a queued config change
+     */
+    event ConfigCancelled();
+
+    /**
+     * @notice Emitted when the guardian is changed
+     * @param previousGuardian Guardian being replaced
+     * @param newGuardian New guardian address
+     */
+    event GuardianUpdated(address indexed previousGuardian, address indexed newGuardian);
+
+    /**
+     * @notice Emitted when the vault is paused through pause()
+     * @param account Owner or guardian that paused
+     */
+    event VaultPaused(address indexed account);
+
+    /**
+     * @notice Emitted when the vault is unpaused through unpause()
+     * @param account Owner that unpaused
+     */
+    event VaultUnpaused(address indexed account);
+
+    /**
+     * @notice Emitted when shares are redeemed for a pro-rata cut of both tokens
+     * @param caller Account that called redeemInKind
+     * @param receiver Recipient of the tokens
+     * @param shareOwner Account whose shares were burned
+     * @param shares Shares burned
+     * @param quoteOut Quote tokens paid out
+     * @param baseOut Base tokens paid out
+     */
+    event RedeemedInKind(
+        address indexed caller,
+        address indexed receiver,
+        address indexed shareOwner,
+        uint256 shares,
+        uint256 quoteOut,
+        uint256 baseOut
+    );
+
     /**
      * @notice Deploy a new MicroDcaVault
      * @param _router DEX router address for swaps
+     * @param _priceSource Oracle used to value base token holdings in quote terms
      * @param _base Base token address (what we buy)
      * @param _quote Quote token address (ERC-4626 asset, what users deposit)
      * @param _intervalSeconds Minimum seconds between cycles
      * @param _maxSlippageBps Maximum slippage in basis points
      * @param _perCycleQuoteCap Maximum quote tokens per cycle
      * @param _feeBps Protocol fee in basis points
+     * @param _keeper Authorized keeper address (zero = anyone can execute)
      * @param _owner Owner address for access control
      */
     constructor(
         address _router,
+        address _priceSource,
         address _base,
         address _quote,
         uint256 _intervalSeconds,
         uint256 _maxSlippageBps,
         uint256 _perCycleQuoteCap,
         uint256 _feeBps,
+        address _keeper,
         address _owner
     )
         ERC20(
@@ -108,11 +191,12 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
         ERC4626(IERC20(_quote))
         Ownable(_owner)
     {
-        if (_router == address(0) || _base == address(0) || _quote == address(0)) {
+        if (_router == address(0) || _priceSource == address(0) || _base == address(0) || _quote == address(0)) {
             revert Errors.ZeroAddress();
         }
         
         router = IRouter(_router);
+        priceSource = IPriceSource(_priceSource);
         baseToken = IERC20(_base);
         quoteToken = IERC20(_quote);
 
@@ -120,6 +204,7 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
         maxSlippageBps = _maxSlippageBps;
         perCycleQuoteCap = _perCycleQuoteCap;
         feeBps = _feeBps;
+        keeper = _keeper;
 
         lastExec = block.timestamp;
     }
@@ -134,6 +219,9 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
 
     /**
      * @notice Update vault configuration (owner only)
+     * @dev Raising the fee, widening slippage or changing the keeper is queued for CONFIG_DELAY
+     *      so depositors can exit first; those fields keep their current values until applyConfig.
+     *      Every other field, and any of those three that is only being tightened, applies at once
      * @param _intervalSeconds New interval between cycles
      * @param _maxSlippageBps New maximum slippage tolerance
      * @param _perCycleQuoteCap New per-cycle swap limit
@@ -150,13 +238,82 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
         bool _paused
     ) external onlyOwner {
         intervalSeconds = _intervalSeconds;
-        maxSlippageBps = _maxSlippageBps;
         perCycleQuoteCap = _perCycleQuoteCap;
-        feeBps = _feeBps;
-        keeper = _keeper;
         paused = _paused;
-        
-        emit ConfigUpdated(_intervalSeconds, _maxSlippageBps, _perCycleQuoteCap, _feeBps, _keeper, _paused);
+
+        if (_feeBps > feeBps || _maxSlippageBps > maxSlippageBps || _keeper != keeper) {
+            // Tightened fields still apply now; the queued entry holds the full target
+            if (_feeBps < feeBps) feeBps = _feeBps;
+            if (_maxSlippageBps < maxSlippageBps) maxSlippageBps = _maxSlippageBps;
+
+            uint256 eta = block.timestamp + CONFIG_DELAY;
+            _pendingConfig = PendingConfig(_maxSlippageBps, _feeBps, _keeper, eta);
+            emit ConfigQueued(_maxSlippageBps, _feeBps, _keeper, eta);
+        } else {
+            maxSlippageBps = _maxSlippageBps;
+            feeBps = _feeBps;
+        }
+
+        emit ConfigUpdated(intervalSeconds, maxSlippageBps, perCycleQuoteCap, feeBps, keeper, paused);
+    }
+
+    /**
+     * @notice Apply the queued config change once its ETA has passed
+     * @dev Callable by anyone, since the change was announced when it was queued. A change
+     *      left unapplied past eta + CONFIG_GRACE_PERIOD lapses and has to be queued again
+     */
+    function applyConfig() external {
+        PendingConfig memory pending = _pendingConfig;
+        if (pending.eta == 0) revert Errors.NoPendingConfig();
+        if (block.timestamp < pending.eta) revert Errors.TimelockNotElapsed();
+        if (block.timestamp > pending.eta + CONFIG_GRACE_PERIOD) revert Errors.ConfigExpired();
+
+        delete _pendingConfig;
+        maxSlippageBps = pending.maxSlippageBps;
+        feeBps = pending.feeBps;
+        keeper = pending.keeper;
+
+        emit ConfigUpdated(intervalSeconds, maxSlippageBps, perCycleQuoteCap, feeBps, keeper, paused);
+    }
+
+    /**
+     * @notice Drop the queued config change (owner only)
+     */
+    function cancelConfig() external onlyOwner {
+        if (_pendingConfig.eta == 0) revert Errors.NoPendingConfig();
+
+        delete _pendingConfig;
+        emit ConfigCancelled();
+    }
+
+    /**
+     * @notice Assign or clear the guardian (owner only)
+     * @param _guardian New guardian address (zero = only the owner can pause)
+     */
+    function setGuardian(address _guardian) external onlyOwner {
+        emit GuardianUpdated(guardian, _guardian);
+        guardian = _guardian;
+    }
+
+    /**
+     * @notice Stop cycle execution without touching the rest of the configuration
+     * @dev Callable by the owner or the guardian, so a monitoring key can halt the vault
+     */
+    function pause() external notPaused {
+        if (msg.sender != owner() && msg.sender != guardian) revert Errors.NotGuardian();
+
+        paused = true;
+        emit VaultPaused(msg.sender);
+    }
+
+    /**
+     * @notice Resume cycle execution (owner only)
+     */
+    function unpause() external onlyOwner {
+        if (!paused) revert Errors.NotPaused();
+
+        paused = false;
+        emit VaultUnpaused(msg.sender);
     }
 
     /**
@@ -178,13 +335,26 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Preview the expected output for a given quote amount (passthrough for MVP)
+     * @notice Get the queued config change
+     * @return maxSlippageBps, feeBps, keeper, eta (eta is zero when nothing is queued)
+     */
+    function getPendingConfig() external view returns (uint256, uint256, address, uint256) {
+        PendingConfig memory pending = _pendingConfig;
+        return (pending.maxSlippageBps, pending.feeBps, pending.keeper, pending.eta);
+    }
+
+    /**
+     * @notice Preview the router output for swapping a given quote amount into base tokens
      * @param quoteAmount Amount of quote tokens to swap
-     * @return Expected minimum output (relies on external pricing)
+     * @return Expected base tokens out of the swap, before slippage and protocol fees
      */
-    function previewCycleOut(uint256 quoteAmount) external pure returns (uint256) {
-        // MVP: Simple passthrough - real implementation would use price oracle
-        return quoteAmount; // Placeholder for 1:1 rate
+    function previewCycleOut(uint256 quoteAmount) external view returns (uint256) {
+        address[] memory path = new address[](2);
+        path[0] = address(quoteToken);
+        path[1] = address(baseToken);
+
+        uint[] memory amounts = router.getAmountsOut(quoteAmount, path);
+        return amounts[amounts.length - 1];
     }
 
     /**
@@ -263,18 +433,130 @@ contract MicroDcaVault is ERC4626, Ownable, ReentrancyGuard {
         beneficiary; // Silence unused parameter warning
     }
 
+    /**
+     * @notice Burn shares for a pro-rata cut of the vault's quote and base balances
+     * @dev Needs no price, so it stays open while the price source is stale or reverting, and it
+     *      reaches the base leg that withdraw and redeem cannot pay out
+     * @param shares Shares to burn
+     * @param receiver Recipient of both tokens
+     * @param shareOwner Account whose shares are burned; callers other than the owner spend its allowance
+     * @return quoteOut Quote tokens paid out
+     * @return baseOut Base tokens paid out
+     */
+    function redeemInKind(
+        uint256 shares,
+        address receiver,
+        address shareOwner
+    ) external nonReentrant returns (uint256 quoteOut, uint256 baseOut) {
+        if (receiver == address(0)) revert Errors.ZeroAddress();
+        if (msg.sender != shareOwner) _spendAllowance(shareOwner, msg.sender, shares);
+
+        (quoteOut, baseOut) = previewRedeemInKind(shares);
+        _burn(shareOwner, shares);
+
+        quoteToken.safeTransfer(receiver, quoteOut);
+        baseToken.safeTransfer(receiver, baseOut);
+
+        emit RedeemedInKind(msg.sender, receiver, shareOwner, shares, quoteOut, baseOut);
+    }
+
+    /**
+     * @notice Preview the tokens redeemInKind pays for a number of shares
+     * @param shares Shares to burn
+     * @return quoteOut Quote tokens paid out
+     * @return baseOut Base tokens paid out
+     */
+    function previewRedeemInKind(uint256 shares) public view returns (uint256 quoteOut, uint256 baseOut) {
+        uint256 supply = totalSupply();
+        if (supply == 0) return (0, 0);
+
+        quoteOut = Math.mulDiv(quoteToken.balanceOf(address(this)), shares, supply);
+        baseOut = Math.mulDiv(baseToken.balanceOf(address(this)), shares, supply);
+    }
+
     /**
      * @notice Get total value of all assets held by the vault
      * @return Total assets in quote token terms (for ERC-4626 compatibility)
-     * @dev For MVP, this includes both quote and base tokens at current balances
+     * @dev Quote balance plus the base balance valued by priceSource. Base counts for nothing
+     *      while its price is stale or the source reverts; deposits, withdrawals and redemptions
+     *      are closed then, so that figure only feeds views
      */
     function totalAssets() public view override returns (uint256) {
-        // MVP: Return quote token balance + base token balance (1:1 assumed for simplicity)
-        // Real implementation would need price oracle to convert base to quote value
-        uint256 quoteBalance = IERC20(asset()).balanceOf(address(this));
+        (uint256 baseValue, bool fresh) = _baseValue();
+        return IERC20(asset()).balanceOf(address(this)) + (fresh ? baseValue : 0);
+    }
+
+    /**
+     * @notice Quote tokens an account can withdraw now
+     * @dev Zero without a fresh price and never more than the vault's quote balance, since
+     *      withdrawals pay out quote only; redeemInKind covers the rest of a position
+     */
+    function maxWithdraw(address shareOwner) public view override returns (uint256) {
+        (, bool fresh) = _baseValue();
+        if (!fresh) return 0;
+        return Math.min(super.maxWithdraw(shareOwner), IERC20(asset()).balanceOf(address(this)));
+    }
+
+    /**
+     * @notice Shares an account can redeem now
+     * @dev Zero without a fresh price and capped at the shares the vault's quote balance covers
+     */
+    function maxRedeem(address shareOwner) public view override returns (uint256) {
+        (, bool fresh) = _baseValue();
+        if (!fresh) return 0;
+        uint256 quoteShares = _convertToShares(IERC20(asset()).balanceOf(address(this)), Math.Rounding.Floor);
+        return Math.min(super.maxRedeem(shareOwner), quoteShares);
+    }
+
+    /**
+     * @dev Reverts with StalePrice rather than ERC4626ExceededMaxWithdraw while the price is not fresh
+     */
+    function withdraw(uint256 assets, address receiver, address shareOwner) public override returns (uint256) {
+        _requireFreshPrice();
+        return super.withdraw(assets, receiver, shareOwner);
+    }
+
+    /**
+     * @dev Reverts with StalePrice rather than ERC4626ExceededMaxRedeem while the price is not fresh
+     */
+    function redeem(uint256 shares, address receiver, address shareOwner) public override returns (uint256) {
+        _requireFreshPrice();
+        return super.redeem(shares, receiver, shareOwner);
+    }
+
+    /**
+     * @notice Value the base balance through priceSource
+     * @return baseValue Quote value of the base balance
+     * @return fresh Whether the price is recent enough to trade on (true when there is no base)
+     */
+    function _baseValue() internal view returns (uint256 baseValue, bool fresh) {
         uint256 baseBalance = baseToken.balanceOf(address(this));
-        
-        // Simplified 1:1 conversion for demo - replace with oracle price in production
-        return quoteBalance + baseBalance;
+        if (baseBalance == 0) return (0, true);
+
+        try priceSource.getQuote(address(baseToken), address(quoteToken), baseBalance) returns (
+            uint256 quoteAmount,
+            bool isFresh
+        ) {
+            return (quoteAmount, isFresh);
+        } catch {
+            // A removed pair or a bad answer is treated like a stale price, so views keep working
+            return (0, false);
+        }
+    }
+
+    /**
+     * @notice Revert when share pricing would depend on a base price that is stale or unavailable
+     */
+    function _requireFreshPrice() internal view {
+        (, bool fresh) = _baseValue();
+        if (!fresh) revert Errors.StalePrice();
+    }
+
+    /**
+     * @dev Shares are priced from totalAssets, so minting them without a fresh price would misprice the deposit
+     */
+    function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal override {
+        _requireFreshPrice();
+        super._deposit(caller, receiver, assets, shares);
     }
 }
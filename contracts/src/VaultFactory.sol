@@ -2,6 +2,7 @@
 pragma solidity ^0.8.24;
 
 import {MicroDcaVault} from "./MicroDcaVault.sol";
+import {IPriceSource} from "./interfaces/IPriceSource.sol";
 import {Errors} from "./libraries/Errors.sol";
 
 /**
@@ -13,12 +14,21 @@ contract VaultFactory {
     /// @notice DEX router address used for all created vaults
     address public immutable router;
 
+    /// @notice Price source used by all created vaults to value their base holdings
+    address public immutable priceSource;
+
     /// @notice Array of all created vault addresses
     address[] public allVaults;
 
     /// @notice Mapping to check if an address is a valid vault from this factory
     mapping(address => bool) public isVault;
 
+    /// @notice Source vault each copy was created from (zero for original vaults)
+    mapping(address => address) public sourceOf;
+
+    /// @notice Copies created directly from each vault, in creation order
+    mapping(address => address[]) private _copies;
+
     /**
      * @notice Emitted when a new vault is created
      * @param vault Address of the created vault
@@ -46,12 +56,14 @@ contract VaultFactory {
     );
 
     /**
-     * @notice Deploy the factory with a router address
+     * @notice Deploy the factory with a router and price source
      * @param _router DEX router address for all vaults
+     * @param _priceSource Price source for all vaults
      */
-    constructor(address _router) {
-        if (_router == address(0)) revert Errors.ZeroAddress();
+    constructor(address _router, address _priceSource) {
+        if (_router == address(0) || _priceSource == address(0)) revert Errors.ZeroAddress();
         router = _router;
+        priceSource = _priceSource;
     }
 
     /**
@@ -81,25 +93,9 @@ contract VaultFactory {
         if (base == quote) {
             revert Errors.InvalidParams();
         }
-        if (intervalSeconds == 0 || maxSlippageBps > 10000 || feeBps > 10000) {
-            revert Errors.InvalidParams();
-        }
+        _validateParams(intervalSeconds, maxSlippageBps, feeBps);
 
-        // Deploy new vault with msg.sender as owner
-        vault = address(new MicroDcaVault(
-            router,
-            base,
-            quote,
-            intervalSeconds,
-            maxSlippageBps,
-            perCycleQuoteCap,
-            feeBps,
-            msg.sender
-        ));
-
-        // Track the vault
-        allVaults.push(vault);
-        isVault[vault] = true;
+        vault = _deploy(base, quote, intervalSeconds, maxSlippageBps, perCycleQuoteCap, feeBps, keeper);
 
         emit VaultCreated(vault, base, quote, msg.sender);
     }
@@ -111,41 +107,47 @@ contract VaultFactory {
      * @dev The copy will have msg.sender as owner and keeper set to zero address (permissionless)
      */
     function copyVault(address src) external returns (address vault) {
-        if (src == address(0)) revert Errors.ZeroAddress();
-        
-        // Verify the source is a valid MicroDcaVault (basic check)
-        try MicroDcaVault(src).getConfig() returns (
+        (address base, address quote) = _sourceTokens(src);
+        (
             uint256 intervalSeconds,
             uint256 maxSlippageBps,
             uint256 perCycleQuoteCap,
             uint256 feeBps,
-            address, // ignore keeper from source
-            bool     // ignore paused state from source
-        ) {
-            // Get token addresses from source vault
-            address base = address(MicroDcaVault(src).baseToken());
-            address quote = address(MicroDcaVault(src).quoteToken());
-
-            // Deploy copy with same parameters but msg.sender as owner and no keeper restriction
-            vault = address(new MicroDcaVault(
-                router,
-                base,
-                quote,
-                intervalSeconds,
-                maxSlippageBps,
-                perCycleQuoteCap,
-                feeBps,
-                msg.sender // New owner
-            ));
-
-            // Track the vault
-            allVaults.push(vault);
-            isVault[vault] = true;
-
-            emit VaultCopied(src, vault, msg.sender);
-        } catch {
-            revert Errors.InvalidParams();
-        }
+            , // ignore keeper from source
+              // ignore paused state from source
+        ) = MicroDcaVault(src).getConfig();
+
+        // Deploy copy with same parameters but msg.sender as owner and no keeper restriction
+        vault = _deploy(base, quote, intervalSeconds, maxSlippageBps, perCycleQuoteCap, feeBps, address(0));
+
+        _recordCopy(src, vault);
+    }
+
+    /**
+     * @notice Copy an existing vault's token pair with caller-chosen parameters
+     * @param src Address of the vault to copy
+     * @param intervalSeconds Minimum seconds between DCA cycles
+     * @param maxSlippageBps Maximum slippage tolerance in basis points
+     * @param perCycleQuoteCap Maximum quote tokens to swap per cycle
+     * @param feeBps Protocol fee in basis points
+     * @param keeper Authorized keeper address (zero = anyone can execute)
+     * @return vault Address of the newly created copy
+     * @dev Emits VaultCopied like copyVault, so the copy keeps its lineage to src
+     */
+    function copyVaultWithOverrides(
+        address src,
+        uint256 intervalSeconds,
+        uint256 maxSlippageBps,
+        uint256 perCycleQuoteCap,
+        uint256 feeBps,
+        address keeper
+    ) external returns (address vault) {
+        (address base, address quote) = _sourceTokens(src);
+        _validateParams(intervalSeconds, maxSlippageBps, feeBps);
+
+        vault = _deploy(base, quote, intervalSeconds, maxSlippageBps, perCycleQuoteCap, feeBps, keeper);
+
+        _recordCopy(src, vault);
     }
 
     /**
@@ -174,6 +176,25 @@ contract VaultFactory {
         return allVaults[index];
     }
 
+    /**
+     * @notice Get the copies created directly from a vault
+     * @param vault Source vault address
+     * @return Array of copy addresses, oldest first
+     * @dev Copies of copies are listed under their own source; walk the tree for full lineage
+     */
+    function copiesOf(address vault) external view returns (address[] memory) {
+        return _copies[vault];
+    }
+
+    /**
+     * @notice Get the number of copies created directly from a vault
+     * @param vault Source vault address
+     * @return Count of direct copies
+     */
+    function getCopyCount(address vault) external view returns (uint256) {
+        return _copies[vault].length;
+    }
+
     /**
      * @notice Get a page of vaults for UI pagination
      * @param offset Starting index
@@ -204,4 +225,70 @@ contract VaultFactory {
             vaults[i] = allVaults[offset + i];
         }
     }
+
+    /**
+     * @notice Reject an unusable interval or out-of-range basis point values
+     */
+    function _validateParams(uint256 intervalSeconds, uint256 maxSlippageBps, uint256 feeBps) internal pure {
+        if (intervalSeconds == 0 || maxSlippageBps > 10000 || feeBps > 10000) {
+            revert Errors.InvalidParams();
+        }
+    }
+
+    /**
+     * @notice Read the token pair of a vault being copied
+     * @dev Only vaults deployed by this factory can be copied, so a contract that merely
+     *      mimics the vault interface cannot collect lineage or copy-count credit
+     */
+    function _sourceTokens(address src) internal view returns (address base, address quote) {
+        if (src == address(0)) revert Errors.ZeroAddress();
+        if (!isVault[src]) revert Errors.InvalidParams();
+
+        base = address(MicroDcaVault(src).baseToken());
+        quote = address(MicroDcaVault(src).quoteToken());
+    }
+
+    /**
+     * @notice Link a new copy to its source and emit VaultCopied
+     */
+    function _recordCopy(address src, address vault) internal {
+        sourceOf[vault] = src;
+        _copies[src].push(vault);
+
+        emit VaultCopied(src, vault, msg.sender);
+    }
+
+    /**
+     * @notice Deploy and register a vault owned by msg.sender
+     * @dev Reverts with UnsupportedPair when the price source cannot value the pair, since the
+     *      vault could not price shares once it holds base tokens
+     */
+    function _deploy(
+        address base,
+        address quote,
+        uint256 intervalSeconds,
+        uint256 maxSlippageBps,
+        uint256 perCycleQuoteCap,
+        uint256 feeBps,
+        address keeper
+    ) internal returns (address vault) {
+        if (!IPriceSource(priceSource).isSupported(base, quote)) revert Errors.UnsupportedPair();
+
+        vault = address(new MicroDcaVault(
+            router,
+            priceSource,
+            base,
+            quote,
+            intervalSeconds,
+            maxSlippageBps,
+            perCycleQuoteCap,
+            feeBps,
+            keeper,
+            msg.sender
+        ));
+
+        // Track the vault
+        allVaults.push(vault);
+        isVault[vault] = true;
+    }
 }
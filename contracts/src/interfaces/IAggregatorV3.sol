@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title IAggregatorV3
+ * @notice Interface for Chainlink-style price feeds
+ * @dev Minimal subset of AggregatorV3Interface needed by ChainlinkPriceSource
+ */
+interface IAggregatorV3 {
+    /**
+     * @notice Number of decimals in the feed's answer
+     */
+    function decimals() external view returns (uint8);
+
+    /**
+     * @notice Latest price round
+     * @return roundId Round identifier
+     * @return answer Price of one base unit in quote terms, scaled by decimals()
+     * @return startedAt Timestamp the round started
+     * @return updatedAt Timestamp the answer was last updated
+     * @return answeredInRound Round in which the answer was computed
+     */
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+}
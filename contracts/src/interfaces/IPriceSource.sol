@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title IPriceSource
+ * @notice Interface for pricing a vault's base token holdings in quote token terms
+ * @dev Implementations can wrap a Chainlink-style feed, a TWAP over the router pair, or any
+ *      other oracle. Staleness is judged by the source, since acceptable age depends on the feed
+ */
+interface IPriceSource {
+    /**
+     * @notice Value an amount of base tokens in quote tokens
+     * @param base Base token address
+     * @param quote Quote token address
+     * @param baseAmount Amount of base tokens, in base token units
+     * @return quoteAmount Value of baseAmount in quote token units
+     * @return fresh Whether the underlying price is recent enough to trade on
+     */
+    function getQuote(
+        address base,
+        address quote,
+        uint256 baseAmount
+    ) external view returns (uint256 quoteAmount, bool fresh);
+
+    /**
+     * @notice Whether the source can price a token pair
+     * @param base Base token address
+     * @param quote Quote token address
+     * @return True when getQuote will not revert for this pair
+     */
+    function isSupported(address base, address quote) external view returns (bool);
+}
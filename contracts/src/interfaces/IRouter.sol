@@ -23,4 +23,15 @@ interface IRouter {
         address to,
         uint deadline
     ) external returns (uint[] memory amounts);
+
+    /**
+     * @notice Quotes the output amounts for swapping an exact input along a path
+     * @param amountIn The amount of input tokens to send
+     * @param path An array of token addresses representing the swap path
+     * @return amounts The input token amount and all subsequent output token amounts
+     */
+    function getAmountsOut(
+        uint amountIn,
+        address[] calldata path
+    ) external view returns (uint[] memory amounts);
 }
@@ -21,6 +21,31 @@ library Errors {
     
     /// @notice Thrown when contract is paused
     error Paused();
+
+    /// @notice Thrown when unpausing a contract that is not paused
+    error NotPaused();
+
+    /// @notice Thrown when caller is neither the owner nor the guardian
+    error NotGuardian();
+
+    /// @notice Thrown when applying a queued config change before its ETA
+    error TimelockNotElapsed();
+
+    /// @notice Thrown when applying a queued config change after its grace period
+    error ConfigExpired();
+
+    /// @notice Thrown when there is no queued config change
+    error NoPendingConfig();
+
+    /// @notice Thrown when the price source has no feed for a token pair
+    error UnsupportedPair();
+
+    /// @notice Thrown when a price feed reports a zero or negative answer
+    error InvalidPrice();
+
+    /// @notice Thrown when depositing, withdrawing or redeeming while the vault holds base tokens
+    ///         without a fresh price; redeemInKind stays open
+    error StalePrice();
     
     /// @notice Thrown when a zero address is provided where it's not allowed
     error ZeroAddress();
@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {ChainlinkPriceSource} from "../src/ChainlinkPriceSource.sol";
+import {Errors} from "../src/libraries/Errors.sol";
+
+contract MockToken {
+    uint8 public decimals;
+
+    constructor(uint8 _decimals) {
+        decimals = _decimals;
+    }
+}
+
+contract MockAggregator {
+    uint8 public decimals;
+    int256 public answer;
+    uint256 public updatedAt;
+
+    constructor(uint8 _decimals, int256 _answer) {
+        decimals = _decimals;
+        setAnswer(_answer);
+    }
+
+    function setAnswer(int256 _answer) public {
+        answer = _answer;
+        updatedAt = block.timestamp;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (1, answer, updatedAt, updatedAt, 1);
+    }
+}
+
+contract ChainlinkPriceSourceTest is Test {
+    ChainlinkPriceSource public source;
+    MockToken public base;
+    MockToken public quote;
+    MockAggregator public feed;
+
+    address public owner = makeAddr("owner");
+    uint256 constant MAX_AGE = 1 hours;
+
+    event FeedUpdated(address indexed base, address indexed quote, address aggregator, uint256 maxAge);
+
+    function setUp() public {
+        // An 18-decimal base priced at 2,500.5 of a 6-decimal quote by an 8-decimal feed
+        base = new MockToken(18);
+        quote = new MockToken(6);
+        feed = new MockAggregator(8, 2500_50000000);
+
+        source = new ChainlinkPriceSource(owner);
+        vm.prank(owner);
+        source.setFeed(address(base), address(quote), address(feed), MAX_AGE);
+    }
+
+    function testGetQuoteScalesDecimals() public {
+        (uint256 quoteAmount, bool fresh) = source.getQuote(address(base), address(quote), 2e18);
+        assertEq(quoteAmount, 5001e6);
+        assertTrue(fresh);
+
+        (quoteAmount, ) = source.getQuote(address(base), address(quote), 1);
+        assertEq(quoteAmount, 0); // rounds down below one quote unit
+    }
+
+    function testGetQuoteStale() public {
+        vm.warp(block.timestamp + MAX_AGE + 1);
+
+        (uint256 quoteAmount, bool fresh) = source.getQuote(address(base), address(quote), 1e18);
+        assertEq(quoteAmount, 2500_500000);
+        assertFalse(fresh);
+
+        feed.setAnswer(2600e8);
+        (quoteAmount, fresh) = source.getQuote(address(base), address(quote), 1e18);
+        assertEq(quoteAmount, 2600e6);
+        assertTrue(fresh);
+    }
+
+    function testGetQuoteInvalidAnswer() public {
+        feed.setAnswer(0);
+        vm.expectRevert(Errors.InvalidPrice.selector);
+        source.getQuote(address(base), address(quote), 1e18);
+
+        feed.setAnswer(-1);
+        vm.expectRevert(Errors.InvalidPrice.selector);
+        source.getQuote(address(base), address(quote), 1e18);
+    }
+
+    function testUnsupportedPair() public {
+        // Feeds are directional
+        assertTrue(source.isSupported(address(base), address(quote)));
+        assertFalse(source.isSupported(address(quote), address(base)));
+
+        vm.expectRevert(Errors.UnsupportedPair.selector);
+        source.getQuote(address(quote), address(base), 1e6);
+    }
+
+    function testSetFeed() public {
+        MockAggregator other = new MockAggregator(8, 1e8);
+
+        vm.expectEmit(true, true, false, true);
+        emit FeedUpdated(address(base), address(quote), address(other), 1 days);
+
+        vm.prank(owner);
+        source.setFeed(address(base), address(quote), address(other), 1 days);
+
+        (address aggregator, uint256 maxAge) = source.getFeed(address(base), address(quote));
+        assertEq(aggregator, address(other));
+        assertEq(maxAge, 1 days);
+    }
+
+    function testCannotRemoveFeed() public {
+        vm.prank(owner);
+        vm.expectRevert(Errors.ZeroAddress.selector);
+        source.setFeed(address(base), address(quote), address(0), MAX_AGE);
+
+        assertTrue(source.isSupported(address(base), address(quote)));
+    }
+
+    function testSetFeedInvalid() public {
+        vm.startPrank(owner);
+        vm.expectRevert(Errors.ZeroAddress.selector);
+        source.setFeed(address(0), address(quote), address(feed), MAX_AGE);
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        source.setFeed(address(base), address(quote), address(feed), 0);
+        vm.stopPrank();
+    }
+
+    function testSetFeedOnlyOwner() public {
+        vm.expectRevert();
+        source.setFeed(address(base), address(quote), address(feed), MAX_AGE);
+    }
+}
@@ -52,6 +52,22 @@ contract MockERC20 is Test {
     }
 }
 
+contract MockPriceSource {
+    mapping(address => mapping(address => bool)) public unsupported;
+
+    function setSupported(address base, address quote, bool supported) external {
+        unsupported[base][quote] = !supported;
+    }
+
+    function getQuote(address, address, uint256 baseAmount) external pure returns (uint256, bool) {
+        return (baseAmount, true);
+    }
+
+    function isSupported(address base, address quote) external view returns (bool) {
+        return !unsupported[base][quote];
+    }
+}
+
 contract VaultFactoryTest is Test {
     VaultFactory public factory;
     MockERC20 public baseToken;
@@ -59,6 +75,7 @@ contract VaultFactoryTest is Test {
     MockERC20 public baseToken2;
     MockERC20 public quoteToken2;
     address public router = makeAddr("router");
+    MockPriceSource public priceSource;
     
     address public user1 = makeAddr("user1");
     address public user2 = makeAddr("user2");
@@ -73,7 +90,8 @@ contract VaultFactoryTest is Test {
     event VaultCopied(address indexed src, address indexed copy, address indexed creator);
 
     function setUp() public {
-        factory = new VaultFactory(router);
+        priceSource = new MockPriceSource();
+        factory = new VaultFactory(router, address(priceSource));
         
         baseToken = new MockERC20("Base Token", "BASE", 18);
         quoteToken = new MockERC20("Quote Token", "QUOTE", 18);
@@ -83,12 +101,31 @@ contract VaultFactoryTest is Test {
 
     function testConstructor() public {
         assertEq(factory.router(), router);
+        assertEq(factory.priceSource(), address(priceSource));
         assertEq(factory.getVaultCount(), 0);
     }
 
     function testConstructorZeroAddress() public {
         vm.expectRevert(Errors.ZeroAddress.selector);
-        new VaultFactory(address(0));
+        new VaultFactory(address(0), address(priceSource));
+
+        vm.expectRevert(Errors.ZeroAddress.selector);
+        new VaultFactory(router, address(0));
+    }
+
+    function testCreateVaultUnsupportedPair() public {
+        priceSource.setSupported(address(baseToken), address(quoteToken), false);
+
+        vm.expectRevert(Errors.UnsupportedPair.selector);
+        factory.createVault(
+            address(baseToken),
+            address(quoteToken),
+            INTERVAL,
+            MAX_SLIPPAGE_BPS,
+            PER_CYCLE_CAP,
+            FEE_BPS,
+            keeper
+        );
     }
 
     function testCreateVault() public {
@@ -109,6 +146,8 @@ contract VaultFactoryTest is Test {
         assertEq(address(vaultContract.quoteToken()), address(quoteToken));
         assertEq(vaultContract.owner(), user1);
         assertEq(vaultContract.intervalSeconds(), INTERVAL);
+        assertEq(vaultContract.keeper(), keeper);
+        assertEq(address(vaultContract.priceSource()), address(priceSource));
         
         // Check factory tracking
         assertTrue(factory.isVault(vault));
@@ -246,6 +285,9 @@ contract VaultFactoryTest is Test {
         assertEq(copy.owner(), user2);
         assertNotEq(copy.owner(), original.owner());
 
+        // And no keeper restriction, whatever the source uses
+        assertEq(copy.keeper(), address(0));
+
         // Check factory tracking
         assertTrue(factory.isVault(copiedVault));
         assertEq(factory.getVaultCount(), 2);
@@ -261,6 +303,30 @@ contract VaultFactoryTest is Test {
         factory.copyVault(makeAddr("notAVault"));
     }
 
+    function testCopyVaultNotFromFactory() public {
+        // A genuine vault that this factory did not deploy still has no lineage here
+        MicroDcaVault outsider = new MicroDcaVault(
+            router,
+            address(priceSource),
+            address(baseToken),
+            address(quoteToken),
+            INTERVAL,
+            MAX_SLIPPAGE_BPS,
+            PER_CYCLE_CAP,
+            FEE_BPS,
+            keeper,
+            user1
+        );
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        factory.copyVault(address(outsider));
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        factory.copyVaultWithOverrides(address(outsider), INTERVAL, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, FEE_BPS, keeper);
+
+        assertEq(factory.getCopyCount(address(outsider)), 0);
+    }
+
     function testCopyVaultEvent() public {
         // Create original vault
         vm.prank(user1);
@@ -282,6 +348,137 @@ contract VaultFactoryTest is Test {
         factory.copyVault(originalVault);
     }
 
+    function testCopyVaultWithOverrides() public {
+        vm.prank(user1);
+        address originalVault = factory.createVault(
+            address(baseToken),
+            address(quoteToken),
+            INTERVAL,
+            MAX_SLIPPAGE_BPS,
+            PER_CYCLE_CAP,
+            FEE_BPS,
+            address(0)
+        );
+
+        vm.prank(user2);
+        address copiedVault = factory.copyVaultWithOverrides(
+            originalVault,
+            INTERVAL * 2,
+            MAX_SLIPPAGE_BPS + 25,
+            PER_CYCLE_CAP / 2,
+            0,
+            keeper
+        );
+
+        MicroDcaVault copy = MicroDcaVault(copiedVault);
+
+        // Same token pair as the source
+        assertEq(address(copy.baseToken()), address(baseToken));
+        assertEq(address(copy.quoteToken()), address(quoteToken));
+
+        // Overridden configuration and keeper
+        (uint256 interval, uint256 slippage, uint256 cap, uint256 fee, address keeperAddr, bool paused) = copy.getConfig();
+        assertEq(interval, INTERVAL * 2);
+        assertEq(slippage, MAX_SLIPPAGE_BPS + 25);
+        assertEq(cap, PER_CYCLE_CAP / 2);
+        assertEq(fee, 0);
+        assertEq(keeperAddr, keeper);
+        assertTrue(!paused);
+
+        assertEq(copy.owner(), user2);
+        assertTrue(factory.isVault(copiedVault));
+        assertEq(factory.getVaultCount(), 2);
+    }
+
+    function testCopyVaultWithOverridesEvent() public {
+        vm.prank(user1);
+        address originalVault = factory.createVault(
+            address(baseToken),
+            address(quoteToken),
+            INTERVAL,
+            MAX_SLIPPAGE_BPS,
+            PER_CYCLE_CAP,
+            FEE_BPS,
+            address(0)
+        );
+
+        // Lineage is recorded the same way as a plain copy
+        vm.expectEmit(true, false, true, false);
+        emit VaultCopied(originalVault, address(0), user2);
+
+        vm.prank(user2);
+        factory.copyVaultWithOverrides(originalVault, INTERVAL, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, FEE_BPS, keeper);
+    }
+
+    function testCopyVaultWithOverridesInvalidParams() public {
+        vm.prank(user1);
+        address originalVault = factory.createVault(
+            address(baseToken),
+            address(quoteToken),
+            INTERVAL,
+            MAX_SLIPPAGE_BPS,
+            PER_CYCLE_CAP,
+            FEE_BPS,
+            address(0)
+        );
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        factory.copyVaultWithOverrides(originalVault, 0, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, FEE_BPS, keeper);
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        factory.copyVaultWithOverrides(originalVault, INTERVAL, 10001, PER_CYCLE_CAP, FEE_BPS, keeper);
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        factory.copyVaultWithOverrides(originalVault, INTERVAL, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, 10001, keeper);
+
+        vm.expectRevert(Errors.ZeroAddress.selector);
+        factory.copyVaultWithOverrides(address(0), INTERVAL, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, FEE_BPS, keeper);
+
+        vm.expectRevert(Errors.InvalidParams.selector);
+        factory.copyVaultWithOverrides(makeAddr("notAVault"), INTERVAL, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, FEE_BPS, keeper);
+    }
+
+    function testCopyLineage() public {
+        vm.prank(user1);
+        address originalVault = factory.createVault(
+            address(baseToken),
+            address(quoteToken),
+            INTERVAL,
+            MAX_SLIPPAGE_BPS,
+            PER_CYCLE_CAP,
+            FEE_BPS,
+            address(0)
+        );
+
+        vm.prank(user2);
+        address firstCopy = factory.copyVault(originalVault);
+
+        vm.prank(user2);
+        address secondCopy = factory.copyVaultWithOverrides(
+            originalVault, INTERVAL * 2, MAX_SLIPPAGE_BPS, PER_CYCLE_CAP, FEE_BPS, keeper
+        );
+
+        // A copy of a copy is credited to its immediate source
+        vm.prank(user1);
+        address nestedCopy = factory.copyVault(firstCopy);
+
+        assertEq(factory.sourceOf(originalVault), address(0));
+        assertEq(factory.sourceOf(firstCopy), originalVault);
+        assertEq(factory.sourceOf(secondCopy), originalVault);
+        assertEq(factory.sourceOf(nestedCopy), firstCopy);
+
+        address[] memory copies = factory.copiesOf(originalVault);
+        assertEq(copies.length, 2);
+        assertEq(copies[0], firstCopy);
+        assertEq(copies[1], secondCopy);
+        assertEq(factory.getCopyCount(originalVault), 2);
+
+        copies = factory.copiesOf(firstCopy);
+        assertEq(copies.length, 1);
+        assertEq(copies[0], nestedCopy);
+        assertEq(factory.getCopyCount(nestedCopy), 0);
+    }
+
     function testGetVaultsPaginated() public {
         address[] memory vaults = new address[](5);
 
@@ -0,0 +1,45 @@
+import type { Address } from 'viem';
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  chainId: number;
+  factory: Address;
+  relayer?: Address;
+  startBlock: bigint;
+  databasePath: string;
+  port: number;
+  corsOrigin: string;
+  pollIntervalMs: number;
+  batchSize: bigint;
+  reorgDepth: bigint;
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required environment variable ${name}`);
+  return value;
+}
+
+function optional(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+}
+
+/**
+ * Load indexer configuration from environment variables (see .env.example)
+ */
+export function loadConfig(): IndexerConfig {
+  return {
+    rpcUrl: required('RPC_URL'),
+    chainId: parseInt(optional('CHAIN_ID') || '50311'),
+    factory: required('VAULT_FACTORY_ADDRESS') as Address,
+    relayer: optional('RELAYER_ADDRESS') as Address | undefined,
+    startBlock: BigInt(optional('START_BLOCK') || '0'),
+    databasePath: optional('DATABASE_PATH') || './data/indexer.db',
+    port: parseInt(optional('PORT') || '8788'),
+    corsOrigin: optional('CORS_ORIGIN') || '*',
+    pollIntervalMs: parseInt(optional('POLL_INTERVAL_MS') || '5000'),
+    batchSize: BigInt(optional('BATCH_SIZE') || '2000'),
+    reorgDepth: BigInt(optional('REORG_DEPTH') || '64'),
+  };
+}
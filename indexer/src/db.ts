@@ -0,0 +1,702 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { Address, Hash } from 'viem';
+
+import type { PendingConfig, TokenInfo, VaultConfig } from '../../app/src/lib/contracts';
+import {
+  serializePendingConfig,
+  serializeVaultConfig,
+  type FlowKind,
+  type IndexedFill,
+  type IndexedFlow,
+  type IndexedMetaTx,
+  type IndexedToken,
+  type IndexedVault,
+  type IndexedVaultFilters,
+  type IndexerStats,
+  type PageOptions,
+} from '../../app/src/lib/indexer';
+
+export interface Cursor {
+  blockNumber: bigint;
+  blockHash: Hash | null;
+}
+
+export interface LogPosition {
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+export interface BlockRecord {
+  number: bigint;
+  hash: Hash;
+  timestamp: bigint;
+}
+
+export interface NewVault extends LogPosition {
+  address: Address;
+  baseToken: Address;
+  quoteToken: Address;
+  creator: Address;
+  sourceVault: Address | null;
+  config: VaultConfig;
+}
+
+export interface NewConfigUpdate extends LogPosition {
+  vault: Address;
+  config: VaultConfig;
+  // Change queued by setConfig and still awaiting applyConfig as of this log
+  pendingConfig?: PendingConfig;
+}
+
+export interface NewFill extends LogPosition {
+  vault: Address;
+  ts: bigint;
+  quoteIn: bigint;
+  baseOut: bigint;
+}
+
+export interface NewFlow extends LogPosition {
+  vault: Address;
+  kind: FlowKind;
+  sender: Address;
+  owner: Address;
+  receiver: Address | null;
+  assets: bigint;
+  shares: bigint;
+  baseOut: bigint;
+}
+
+export interface NewMetaTx extends LogPosition {
+  user: Address;
+  vault: Address;
+  quoteAmount: bigint;
+  baseOut: bigint;
+  relayerFee: bigint;
+}
+
+/**
+ * Everything decoded from one block range, written atomically together with the cursor
+ */
+export interface IndexedBatch {
+  cursor: Cursor & { blockHash: Hash };
+  blocks: BlockRecord[];
+  tokens: TokenInfo[];
+  vaults: NewVault[];
+  configUpdates: NewConfigUpdate[];
+  fills: NewFill[];
+  flows: NewFlow[];
+  metaTxs: NewMetaTx[];
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Tables holding chain data; everything above a reorged block is deleted from these
+const BLOCK_SCOPED_TABLES = ['vaults', 'config_updates', 'fills', 'flows', 'meta_txs', 'blocks'] as const;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS blocks (
+    block_number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tokens (
+    address TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    decimals INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS vaults (
+    address TEXT PRIMARY KEY,
+    base_token TEXT NOT NULL,
+    quote_token TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    source_vault TEXT,
+    interval_seconds TEXT NOT NULL,
+    max_slippage_bps TEXT NOT NULL,
+    per_cycle_quote_cap TEXT NOT NULL,
+    fee_bps TEXT NOT NULL,
+    keeper TEXT NOT NULL,
+    paused INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS vaults_creator ON vaults (creator);
+  CREATE INDEX IF NOT EXISTS vaults_source ON vaults (source_vault);
+
+  CREATE TABLE IF NOT EXISTS config_updates (
+    vault TEXT NOT NULL,
+    interval_seconds TEXT NOT NULL,
+    max_slippage_bps TEXT NOT NULL,
+    per_cycle_quote_cap TEXT NOT NULL,
+    fee_bps TEXT NOT NULL,
+    keeper TEXT NOT NULL,
+    paused INTEGER NOT NULL,
+    pending_max_slippage_bps TEXT,
+    pending_fee_bps TEXT,
+    pending_keeper TEXT,
+    pending_eta TEXT,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS config_updates_vault ON config_updates (vault, block_number);
+
+  CREATE TABLE IF NOT EXISTS fills (
+    vault TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    quote_in TEXT NOT NULL,
+    base_out TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS fills_vault ON fills (vault, block_number);
+  CREATE INDEX IF NOT EXISTS fills_ts ON fills (ts);
+
+  CREATE TABLE IF NOT EXISTS flows (
+    vault TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    receiver TEXT,
+    assets TEXT NOT NULL,
+    shares TEXT NOT NULL,
+    base_out TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS flows_vault ON flows (vault, block_number);
+  CREATE INDEX IF NOT EXISTS flows_owner ON flows (owner);
+
+  CREATE TABLE IF NOT EXISTS meta_txs (
+    user TEXT NOT NULL,
+    vault TEXT NOT NULL,
+    quote_amount TEXT NOT NULL,
+    base_out TEXT NOT NULL,
+    relayer_fee TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (transaction_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS meta_txs_user ON meta_txs (user, block_number);
+`;
+
+// Current config is the latest config snapshot, falling back to what the vault was created with.
+// Snapshots carry the queued change, so a vault without one has nothing pending
+const VAULT_SELECT = `
+  SELECT
+    v.address, v.base_token, v.quote_token, v.creator, v.source_vault,
+    v.block_number, v.transaction_hash, b.timestamp AS created_at,
+    COALESCE(cu.interval_seconds, v.interval_seconds) AS interval_seconds,
+    COALESCE(cu.max_slippage_bps, v.max_slippage_bps) AS max_slippage_bps,
+    COALESCE(cu.per_cycle_quote_cap, v.per_cycle_quote_cap) AS per_cycle_quote_cap,
+    COALESCE(cu.fee_bps, v.fee_bps) AS fee_bps,
+    COALESCE(cu.keeper, v.keeper) AS keeper,
+    COALESCE(cu.paused, v.paused) AS paused,
+    cu.pending_max_slippage_bps, cu.pending_fee_bps, cu.pending_keeper, cu.pending_eta,
+    (SELECT COUNT(*) FROM vaults c WHERE c.source_vault = v.address) AS copy_count
+  FROM vaults v
+  JOIN blocks b ON b.block_number = v.block_number
+  LEFT JOIN config_updates cu ON cu.rowid = (
+    SELECT rowid FROM config_updates
+    WHERE vault = v.address
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT 1
+  )
+`;
+
+interface VaultRow {
+  address: Address;
+  base_token: Address;
+  quote_token: Address;
+  creator: Address;
+  source_vault: Address | null;
+  block_number: number;
+  transaction_hash: Hash;
+  created_at: number;
+  interval_seconds: string;
+  max_slippage_bps: string;
+  per_cycle_quote_cap: string;
+  fee_bps: string;
+  keeper: Address;
+  paused: number;
+  pending_max_slippage_bps: string | null;
+  pending_fee_bps: string | null;
+  pending_keeper: Address | null;
+  pending_eta: string | null;
+  copy_count: number;
+}
+
+interface FillRow {
+  vault: Address;
+  ts: number;
+  quote_in: string;
+  base_out: string;
+  block_number: number;
+  transaction_hash: Hash;
+  log_index: number;
+}
+
+function page({ limit, offset }: PageOptions) {
+  return {
+    limit: Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+    offset: Math.max(offset ?? 0, 0),
+  };
+}
+
+function toIndexedFill(row: FillRow): IndexedFill {
+  return {
+    vault: row.vault,
+    ts: row.ts,
+    quoteIn: row.quote_in,
+    baseOut: row.base_out,
+    blockNumber: row.block_number,
+    transactionHash: row.transaction_hash,
+    logIndex: row.log_index,
+  };
+}
+
+/**
+ * Open (or create) the indexer database and return its read/write operations
+ */
+export function createStore(path: string) {
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const getMeta = (key: string): string | undefined =>
+    (db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined)?.value;
+  const setMeta = (key: string, value: string | null) => {
+    if (value === null) db.prepare('DELETE FROM meta WHERE key = ?').run(key);
+    else db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value);
+  };
+
+  function getCursor(): Cursor | null {
+    const blockNumber = getMeta('cursor_block');
+    if (blockNumber === undefined) return null;
+    return { blockNumber: BigInt(blockNumber), blockHash: (getMeta('cursor_hash') as Hash) ?? null };
+  }
+
+  function setCursor(cursor: Cursor) {
+    setMeta('cursor_block', cursor.blockNumber.toString());
+    setMeta('cursor_hash', cursor.blockHash);
+  }
+
+  /**
+   * Refuse to mix data from different chains in one database file
+   */
+  function assertChain(chainId: number) {
+    const stored = getMeta('chain_id');
+    if (stored === undefined) setMeta('chain_id', chainId.toString());
+    else if (stored !== chainId.toString()) {
+      throw new Error(`Database was built for chain ${stored}, not ${chainId}`);
+    }
+  }
+
+  function listVaultAddresses(): Address[] {
+    return (db.prepare('SELECT address FROM vaults').all() as { address: Address }[]).map((row) => row.address);
+  }
+
+  function hasToken(address: Address): boolean {
+    return !!db.prepare('SELECT 1 FROM tokens WHERE address = ?').get(address);
+  }
+
+  function getBlock(blockNumber: bigint): BlockRecord | undefined {
+    const row = db
+      .prepare('SELECT block_number, hash, timestamp FROM blocks WHERE block_number = ?')
+      .get(blockNumber) as { block_number: number; hash: Hash; timestamp: number } | undefined;
+    return row && { number: BigInt(row.block_number), hash: row.hash, timestamp: BigInt(row.timestamp) };
+  }
+
+  const insertBlock = db.prepare(
+    'INSERT OR REPLACE INTO blocks (block_number, hash, timestamp) VALUES (?, ?, ?)'
+  );
+  const insertToken = db.prepare(
+    'INSERT OR IGNORE INTO tokens (address, name, symbol, decimals) VALUES (?, ?, ?, ?)'
+  );
+  const insertVault = db.prepare(`
+    INSERT OR REPLACE INTO vaults (
+      address, base_token, quote_token, creator, source_vault,
+      interval_seconds, max_slippage_bps, per_cycle_quote_cap, fee_bps, keeper, paused,
+      block_number, transaction_hash, log_index
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertConfigUpdate = db.prepare(`
+    INSERT OR IGNORE INTO config_updates (
+      vault, interval_seconds, max_slippage_bps, per_cycle_quote_cap, fee_bps, keeper, paused,
+      pending_max_slippage_bps, pending_fee_bps, pending_keeper, pending_eta,
+      block_number, transaction_hash, log_index
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertFill = db.prepare(`
+    INSERT OR IGNORE INTO fills (vault, ts, quote_in, base_out, block_number, transaction_hash, log_index)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertFlow = db.prepare(`
+    INSERT OR IGNORE INTO flows (
+      vault, kind, sender, owner, receiver, assets, shares, base_out, block_number, transaction_hash, log_index
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertMetaTx = db.prepare(`
+    INSERT OR IGNORE INTO meta_txs (
+      user, vault, quote_amount, base_out, relayer_fee, block_number, transaction_hash, log_index
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const configValues = (config: VaultConfig) => [
+    config.intervalSeconds.toString(),
+    config.maxSlippageBps.toString(),
+    config.perCycleQuoteCap.toString(),
+    config.feeBps.toString(),
+    config.keeper,
+    config.paused ? 1 : 0,
+  ];
+  const pendingValues = (pending: PendingConfig | undefined) => [
+    pending?.maxSlippageBps.toString() ?? null,
+    pending?.feeBps.toString() ?? null,
+    pending?.keeper ?? null,
+    pending?.eta.toString() ?? null,
+  ];
+
+  /**
+   * Write a decoded block range and advance the cursor in one transaction
+   */
+  const applyBatch = db.transaction((batch: IndexedBatch) => {
+    for (const block of batch.blocks) insertBlock.run(block.number, block.hash, block.timestamp);
+    for (const token of batch.tokens) insertToken.run(token.address, token.name, token.symbol, token.decimals);
+
+    for (const vault of batch.vaults) {
+      insertVault.run(
+        vault.address,
+        vault.baseToken,
+        vault.quoteToken,
+        vault.creator,
+        vault.sourceVault,
+        ...configValues(vault.config),
+        vault.blockNumber,
+        vault.transactionHash,
+        vault.logIndex
+      );
+    }
+    for (const update of batch.configUpdates) {
+      insertConfigUpdate.run(
+        update.vault,
+        ...configValues(update.config),
+        ...pendingValues(update.pendingConfig),
+        update.blockNumber,
+        update.transactionHash,
+        update.logIndex
+      );
+    }
+    for (const fill of batch.fills) {
+      insertFill.run(
+        fill.vault,
+        fill.ts,
+        fill.quoteIn.toString(),
+        fill.baseOut.toString(),
+        fill.blockNumber,
+        fill.transactionHash,
+        fill.logIndex
+      );
+    }
+    for (const flow of batch.flows) {
+      insertFlow.run(
+        flow.vault,
+        flow.kind,
+        flow.sender,
+        flow.owner,
+        flow.receiver,
+        flow.assets.toString(),
+        flow.shares.toString(),
+        flow.baseOut.toString(),
+        flow.blockNumber,
+        flow.transactionHash,
+        flow.logIndex
+      );
+    }
+    for (const tx of batch.metaTxs) {
+      insertMetaTx.run(
+        tx.user,
+        tx.vault,
+        tx.quoteAmount.toString(),
+        tx.baseOut.toString(),
+        tx.relayerFee.toString(),
+        tx.blockNumber,
+        tx.transactionHash,
+        tx.logIndex
+      );
+    }
+
+    setCursor(batch.cursor);
+  });
+
+  /**
+   * Drop everything indexed above `blockNumber` and move the cursor back to it
+   */
+  const rollback = db.transaction((blockNumber: bigint) => {
+    for (const table of BLOCK_SCOPED_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+    }
+    setCursor({ blockNumber, blockHash: getBlock(blockNumber)?.hash ?? null });
+  });
+
+  function fillTotals(vaults: Address[]) {
+    const totals = new Map<Address, { count: number; quote: bigint; base: bigint; lastTs: number | null }>();
+    if (vaults.length === 0) return totals;
+
+    const rows = db
+      .prepare(
+        `SELECT vault, ts, quote_in, base_out FROM fills WHERE vault IN (${vaults.map(() => '?').join(', ')})`
+      )
+      .all(...vaults) as Pick<FillRow, 'vault' | 'ts' | 'quote_in' | 'base_out'>[];
+
+    for (const row of rows) {
+      const entry = totals.get(row.vault) ?? { count: 0, quote: 0n, base: 0n, lastTs: null };
+      entry.count += 1;
+      entry.quote += BigInt(row.quote_in);
+      entry.base += BigInt(row.base_out);
+      entry.lastTs = Math.max(entry.lastTs ?? 0, row.ts);
+      totals.set(row.vault, entry);
+    }
+    return totals;
+  }
+
+  function toIndexedVaults(rows: VaultRow[]): IndexedVault[] {
+    const totals = fillTotals(rows.map((row) => row.address));
+
+    return rows.map((row) => {
+      const total = totals.get(row.address);
+      return {
+        address: row.address,
+        baseToken: row.base_token,
+        quoteToken: row.quote_token,
+        creator: row.creator,
+        sourceVault: row.source_vault,
+        config: serializeVaultConfig({
+          intervalSeconds: BigInt(row.interval_seconds),
+          maxSlippageBps: BigInt(row.max_slippage_bps),
+          perCycleQuoteCap: BigInt(row.per_cycle_quote_cap),
+          feeBps: BigInt(row.fee_bps),
+          keeper: row.keeper,
+          paused: row.paused === 1,
+        }),
+        pendingConfig:
+          row.pending_eta === null
+            ? null
+            : serializePendingConfig({
+                maxSlippageBps: BigInt(row.pending_max_slippage_bps as string),
+                feeBps: BigInt(row.pending_fee_bps as string),
+                keeper: row.pending_keeper as Address,
+                eta: BigInt(row.pending_eta),
+              }),
+        createdAt: row.created_at,
+        blockNumber: row.block_number,
+        transactionHash: row.transaction_hash,
+        fillCount: total?.count ?? 0,
+        totalFilledQuote: (total?.quote ?? 0n).toString(),
+        totalFilledBase: (total?.base ?? 0n).toString(),
+        lastFillAt: total?.lastTs ?? null,
+        copyCount: row.copy_count,
+      };
+    });
+  }
+
+  function listVaults(filters: IndexedVaultFilters & PageOptions = {}): IndexedVault[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filters.creator) {
+      conditions.push('v.creator = ?');
+      params.push(filters.creator);
+    }
+    if (filters.baseToken) {
+      conditions.push('v.base_token = ?');
+      params.push(filters.baseToken);
+    }
+    if (filters.quoteToken) {
+      conditions.push('v.quote_token = ?');
+      params.push(filters.quoteToken);
+    }
+    if (filters.sourceVault) {
+      conditions.push('v.source_vault = ?');
+      params.push(filters.sourceVault);
+    }
+
+    const { limit, offset } = page(filters);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db
+      .prepare(`${VAULT_SELECT} ${where} ORDER BY v.block_number, v.log_index LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as VaultRow[];
+
+    return toIndexedVaults(rows);
+  }
+
+  function getVault(address: Address): IndexedVault | undefined {
+    const row = db.prepare(`${VAULT_SELECT} WHERE v.address = ?`).get(address) as VaultRow | undefined;
+    return row && toIndexedVaults([row])[0];
+  }
+
+  function listFills(vault: Address, options: PageOptions = {}): IndexedFill[] {
+    const { limit, offset } = page(options);
+    const rows = db
+      .prepare(
+        `SELECT * FROM fills WHERE vault = ?
+         ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`
+      )
+      .all(vault, limit, offset) as FillRow[];
+    return rows.map(toIndexedFill);
+  }
+
+  function listFlows(vault: Address, options: PageOptions = {}): IndexedFlow[] {
+    const { limit, offset } = page(options);
+    const rows = db
+      .prepare(
+        `SELECT f.*, b.timestamp FROM flows f
+         JOIN blocks b ON b.block_number = f.block_number
+         WHERE f.vault = ?
+         ORDER BY f.block_number DESC, f.log_index DESC LIMIT ? OFFSET ?`
+      )
+      .all(vault, limit, offset) as {
+      vault: Address;
+      kind: FlowKind;
+      sender: Address;
+      owner: Address;
+      receiver: Address | null;
+      assets: string;
+      shares: string;
+      base_out: string;
+      timestamp: number;
+      block_number: number;
+      transaction_hash: Hash;
+      log_index: number;
+    }[];
+
+    return rows.map((row) => ({
+      vault: row.vault,
+      kind: row.kind,
+      sender: row.sender,
+      owner: row.owner,
+      receiver: row.receiver,
+      assets: row.assets,
+      shares: row.shares,
+      baseOut: row.base_out,
+      timestamp: row.timestamp,
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      logIndex: row.log_index,
+    }));
+  }
+
+  function listMetaTxs(filters: { user?: Address; vault?: Address } & PageOptions = {}): IndexedMetaTx[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (filters.user) {
+      conditions.push('m.user = ?');
+      params.push(filters.user);
+    }
+    if (filters.vault) {
+      conditions.push('m.vault = ?');
+      params.push(filters.vault);
+    }
+
+    const { limit, offset } = page(filters);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db
+      .prepare(
+        `SELECT m.*, b.timestamp FROM meta_txs m
+         JOIN blocks b ON b.block_number = m.block_number
+         ${where}
+         ORDER BY m.block_number DESC, m.log_index DESC LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset) as {
+      user: Address;
+      vault: Address;
+      quote_amount: string;
+      base_out: string;
+      relayer_fee: string;
+      timestamp: number;
+      block_number: number;
+      transaction_hash: Hash;
+      log_index: number;
+    }[];
+
+    return rows.map((row) => ({
+      user: row.user,
+      vault: row.vault,
+      quoteAmount: row.quote_amount,
+      baseOut: row.base_out,
+      relayerFee: row.relayer_fee,
+      timestamp: row.timestamp,
+      blockNumber: row.block_number,
+      transactionHash: row.transaction_hash,
+      logIndex: row.log_index,
+    }));
+  }
+
+  function listTokens(): IndexedToken[] {
+    return db.prepare('SELECT address, name, symbol, decimals FROM tokens ORDER BY symbol').all() as IndexedToken[];
+  }
+
+  function getStats(now: number): IndexerStats {
+    const vaults = toIndexedVaults(db.prepare(VAULT_SELECT).all() as VaultRow[]);
+    const count = (sql: string, ...params: unknown[]) =>
+      (db.prepare(sql).get(...params) as { n: number }).n;
+
+    const volume = new Map<Address, bigint>();
+    for (const vault of vaults) {
+      volume.set(vault.quoteToken, (volume.get(vault.quoteToken) ?? 0n) + BigInt(vault.totalFilledQuote));
+    }
+
+    return {
+      vaultCount: vaults.length,
+      copyCount: vaults.filter((vault) => vault.sourceVault !== null).length,
+      activeCount: vaults.filter((vault) => !vault.config.paused).length,
+      pausedCount: vaults.filter((vault) => vault.config.paused).length,
+      fillCount: count('SELECT COUNT(*) AS n FROM fills'),
+      fills24h: count('SELECT COUNT(*) AS n FROM fills WHERE ts >= ?', now - 24 * 60 * 60),
+      depositorCount: count("SELECT COUNT(DISTINCT owner) AS n FROM flows WHERE kind = 'deposit'"),
+      volumeByQuoteToken: Array.from(volume, ([token, total]) => ({
+        token,
+        totalFilledQuote: total.toString(),
+      })),
+    };
+  }
+
+  return {
+    assertChain,
+    getCursor,
+    getBlock,
+    listVaultAddresses,
+    hasToken,
+    applyBatch,
+    rollback,
+    listVaults,
+    getVault,
+    listFills,
+    listFlows,
+    listMetaTxs,
+    listTokens,
+    getStats,
+    close: () => db.close(),
+  };
+}
+
+export type IndexerStore = ReturnType<typeof createStore>;
@@ -0,0 +1,33 @@
+import { loadConfig } from './config';
+import { createStore } from './db';
+import { createIndexer } from './indexer';
+import { logger } from './logger';
+import { createIndexerServer } from './server';
+
+async function main() {
+  const config = loadConfig();
+  const store = createStore(config.databasePath);
+  store.assertChain(config.chainId);
+
+  const indexer = createIndexer(config, store);
+  const server = createIndexerServer(config, store, indexer);
+
+  server.listen(config.port, () => {
+    logger.info('Indexer API listening', { port: config.port });
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await indexer.start();
+  store.close();
+}
+
+main().catch((error) => {
+  logger.error('Indexer crashed', { error: error instanceof Error ? error.message : String(error) });
+  process.exit(1);
+});
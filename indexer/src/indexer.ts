@@ -0,0 +1,420 @@
+import {
+  createPublicClient,
+  defineChain,
+  getAbiItem,
+  getAddress,
+  http,
+  type Address,
+  type Hash,
+} from 'viem';
+
+import {
+  MICRO_DCA_VAULT_ABI,
+  RELAYER_ABI,
+  VAULT_FACTORY_ABI,
+  type PendingConfig,
+  type TokenInfo,
+  type VaultConfig,
+} from '../../app/src/lib/contracts';
+import { deserializePendingConfig, deserializeVaultConfig } from '../../app/src/lib/indexer';
+import { fetchTokenInfo } from '../../app/src/lib/tokens';
+import type { IndexerConfig } from './config';
+import type {
+  BlockRecord,
+  IndexedBatch,
+  IndexerStore,
+  LogPosition,
+  NewVault,
+} from './db';
+import { logger } from './logger';
+
+// eth_getLogs providers cap the address list, so vault logs are fetched in groups
+const VAULT_ADDRESS_CHUNK = 500;
+
+const FACTORY_EVENTS = [
+  getAbiItem({ abi: VAULT_FACTORY_ABI, name: 'VaultCreated' }),
+  getAbiItem({ abi: VAULT_FACTORY_ABI, name: 'VaultCopied' }),
+];
+
+const VAULT_EVENTS = [
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'Fill' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'ConfigUpdated' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'ConfigQueued' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'ConfigCancelled' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'VaultPaused' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'VaultUnpaused' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'Deposit' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'Withdraw' }),
+  getAbiItem({ abi: MICRO_DCA_VAULT_ABI, name: 'RedeemedInKind' }),
+];
+
+const RELAYER_EVENTS = [getAbiItem({ abi: RELAYER_ABI, name: 'MetaTxExecuted' })];
+
+/**
+ * Thrown when logs in a batch come from a block that is no longer canonical
+ */
+class ReorgDetectedError extends Error {
+  constructor(public readonly blockNumber: bigint) {
+    super(`Reorg detected at block ${blockNumber}`);
+    this.name = 'ReorgDetectedError';
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function toConfig(
+  config: readonly [bigint, bigint, bigint, bigint, Address, boolean]
+): VaultConfig {
+  return {
+    intervalSeconds: config[0],
+    maxSlippageBps: config[1],
+    perCycleQuoteCap: config[2],
+    feeBps: config[3],
+    keeper: getAddress(config[4]),
+    paused: config[5],
+  };
+}
+
+/**
+ * Whether a ConfigUpdated came from applyConfig rather than setConfig. Until it is applied, a
+ * queued change stays above the live config in at least one field (setConfig only tightens in
+ * place), so the live config only reaches it when applyConfig copies it over
+ */
+function isPendingApplied(config: VaultConfig, pending: PendingConfig): boolean {
+  return (
+    config.maxSlippageBps === pending.maxSlippageBps &&
+    config.feeBps === pending.feeBps &&
+    config.keeper === pending.keeper
+  );
+}
+
+function position(log: { blockNumber: bigint; transactionHash: Hash; logIndex: number }): LogPosition {
+  return { blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.logIndex };
+}
+
+/**
+ * Create an indexer that backfills factory, vault and relayer events from
+ * START_BLOCK and then follows the chain head, rewinding on reorgs
+ */
+export function createIndexer(config: IndexerConfig, store: IndexerStore) {
+  const chain = defineChain({
+    id: config.chainId,
+    name: `chain-${config.chainId}`,
+    network: `chain-${config.chainId}`,
+    nativeCurrency: { decimals: 18, name: 'Ether', symbol: 'ETH' },
+    rpcUrls: {
+      default: { http: [config.rpcUrl] },
+      public: { http: [config.rpcUrl] },
+    },
+  });
+
+  const publicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+  let headBlock: bigint | null = null;
+  let running = false;
+
+  /**
+   * Read a vault's tokens and config as of the block it was created in. Falls back to
+   * the latest state on nodes without archive data
+   */
+  async function readVault(vault: Address, blockNumber: bigint) {
+    const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+    const read = (at?: bigint) =>
+      Promise.all([
+        publicClient.readContract({ ...contract, functionName: 'baseToken', blockNumber: at }),
+        publicClient.readContract({ ...contract, functionName: 'quoteToken', blockNumber: at }),
+        publicClient.readContract({ ...contract, functionName: 'getConfig', blockNumber: at }) as Promise<
+          readonly [bigint, bigint, bigint, bigint, Address, boolean]
+        >,
+      ]);
+
+    const [baseToken, quoteToken, vaultConfig] = await read(blockNumber).catch(() => read());
+    return { baseToken: getAddress(baseToken), quoteToken: getAddress(quoteToken), config: toConfig(vaultConfig) };
+  }
+
+  async function readVaultLogs(vaults: Address[], fromBlock: bigint, toBlock: bigint) {
+    const groups = await Promise.all(
+      chunk(vaults, VAULT_ADDRESS_CHUNK).map((addresses) =>
+        publicClient.getLogs({ address: addresses, events: VAULT_EVENTS, fromBlock, toBlock, strict: true })
+      )
+    );
+    return groups.flat();
+  }
+
+  /**
+   * Fetch and decode every tracked event in [fromBlock, toBlock]
+   */
+  async function readBatch(fromBlock: bigint, toBlock: bigint): Promise<IndexedBatch> {
+    const factoryLogs = await publicClient.getLogs({
+      address: config.factory,
+      events: FACTORY_EVENTS,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+
+    const vaults: NewVault[] = [];
+    for (const log of factoryLogs) {
+      if (log.eventName === 'VaultCreated') {
+        const { vault, creator } = log.args;
+        const details = await readVault(vault, log.blockNumber);
+        vaults.push({ ...position(log), ...details, address: getAddress(vault), creator: getAddress(creator), sourceVault: null });
+      } else {
+        const { src, copy, creator } = log.args;
+        const details = await readVault(copy, log.blockNumber);
+        vaults.push({
+          ...position(log),
+          ...details,
+          address: getAddress(copy),
+          creator: getAddress(creator),
+          sourceVault: getAddress(src),
+        });
+      }
+    }
+
+    // Vaults created in this range can already have activity in it
+    const knownVaults = [...store.listVaultAddresses(), ...vaults.map((vault) => vault.address)];
+    const [vaultLogs, relayerLogs] = await Promise.all([
+      knownVaults.length > 0 ? readVaultLogs(knownVaults, fromBlock, toBlock) : Promise.resolve([]),
+      config.relayer
+        ? publicClient.getLogs({ address: config.relayer, events: RELAYER_EVENTS, fromBlock, toBlock, strict: true })
+        : Promise.resolve([]),
+    ]);
+
+    const batch: Omit<IndexedBatch, 'cursor' | 'blocks' | 'tokens'> = {
+      vaults,
+      configUpdates: [],
+      fills: [],
+      flows: [],
+      metaTxs: [],
+    };
+
+    // pause() and unpause() only emit the flag, and queueing or cancelling a config change
+    // only touches the pending entry, so they are stored as config snapshots that carry
+    // forward the vault's latest config and queued change
+    const latestConfig = new Map<Address, VaultConfig>(vaults.map((vault) => [vault.address, vault.config]));
+    const latestPending = new Map<Address, PendingConfig | undefined>(
+      vaults.map((vault) => [vault.address, undefined])
+    );
+    const currentConfig = (vault: Address) => {
+      const stored = store.getVault(vault);
+      const current = latestConfig.get(vault) ?? (stored && deserializeVaultConfig(stored.config));
+      if (!current) throw new Error(`No config known for vault ${vault}`);
+      return current;
+    };
+    const currentPending = (vault: Address) => {
+      if (latestPending.has(vault)) return latestPending.get(vault);
+      const stored = store.getVault(vault)?.pendingConfig;
+      return stored ? deserializePendingConfig(stored) : undefined;
+    };
+    const pushConfig = (
+      log: LogPosition,
+      vault: Address,
+      vaultConfig: VaultConfig,
+      pendingConfig = currentPending(vault)
+    ) => {
+      latestConfig.set(vault, vaultConfig);
+      latestPending.set(vault, pendingConfig);
+      batch.configUpdates.push({ ...log, vault, config: vaultConfig, pendingConfig });
+    };
+
+    for (const log of vaultLogs) {
+      const vault = getAddress(log.address);
+      switch (log.eventName) {
+        case 'Fill':
+          batch.fills.push({ ...position(log), vault, ...log.args });
+          break;
+        case 'ConfigUpdated': {
+          const updated = toConfig([
+            log.args.intervalSeconds,
+            log.args.maxSlippageBps,
+            log.args.perCycleQuoteCap,
+            log.args.feeBps,
+            log.args.keeper,
+            log.args.paused,
+          ]);
+          const pending = currentPending(vault);
+          pushConfig(position(log), vault, updated, pending && isPendingApplied(updated, pending) ? undefined : pending);
+          break;
+        }
+        case 'ConfigQueued':
+          pushConfig(position(log), vault, currentConfig(vault), {
+            maxSlippageBps: log.args.maxSlippageBps,
+            feeBps: log.args.feeBps,
+            keeper: getAddress(log.args.keeper),
+            eta: log.args.eta,
+          });
+          break;
+        case 'ConfigCancelled':
+          pushConfig(position(log), vault, currentConfig(vault), undefined);
+          break;
+        case 'VaultPaused':
+        case 'VaultUnpaused':
+          pushConfig(position(log), vault, {
+            ...currentConfig(vault),
+            paused: log.eventName === 'VaultPaused',
+          });
+          break;
+        case 'Deposit':
+          batch.flows.push({
+            ...position(log),
+            vault,
+            kind: 'deposit',
+            sender: getAddress(log.args.sender),
+            owner: getAddress(log.args.owner),
+            receiver: null,
+            assets: log.args.assets,
+            shares: log.args.shares,
+            baseOut: 0n,
+          });
+          break;
+        case 'Withdraw':
+          batch.flows.push({
+            ...position(log),
+            vault,
+            kind: 'withdraw',
+            sender: getAddress(log.args.sender),
+            owner: getAddress(log.args.owner),
+            receiver: getAddress(log.args.receiver),
+            assets: log.args.assets,
+            shares: log.args.shares,
+            baseOut: 0n,
+          });
+          break;
+        case 'RedeemedInKind':
+          batch.flows.push({
+            ...position(log),
+            vault,
+            kind: 'redeemInKind',
+            sender: getAddress(log.args.caller),
+            owner: getAddress(log.args.shareOwner),
+            receiver: getAddress(log.args.receiver),
+            assets: log.args.quoteOut,
+            shares: log.args.shares,
+            baseOut: log.args.baseOut,
+          });
+          break;
+      }
+    }
+
+    for (const log of relayerLogs) {
+      batch.metaTxs.push({
+        ...position(log),
+        user: getAddress(log.args.user),
+        vault: getAddress(log.args.vault),
+        quoteAmount: log.args.quoteAmount,
+        baseOut: log.args.baseOut,
+        relayerFee: log.args.relayerFee,
+      });
+    }
+
+    // Record hash and timestamp for every block with activity, plus the range end for the cursor
+    const logHashes = new Map<bigint, Hash>();
+    for (const log of [...factoryLogs, ...vaultLogs, ...relayerLogs]) {
+      logHashes.set(log.blockNumber, log.blockHash);
+    }
+    logHashes.delete(toBlock);
+    const blocks = await Promise.all(
+      [toBlock, ...logHashes.keys()].map(async (blockNumber): Promise<BlockRecord> => {
+        const block = await publicClient.getBlock({ blockNumber });
+        const expected = logHashes.get(blockNumber);
+        if (expected && expected !== block.hash) throw new ReorgDetectedError(blockNumber);
+        return { number: blockNumber, hash: block.hash, timestamp: block.timestamp };
+      })
+    );
+    const [end] = blocks as [BlockRecord, ...BlockRecord[]];
+
+    // Vault share tokens are included so the API can label positions
+    const newTokens = new Set<Address>();
+    for (const vault of vaults) {
+      for (const token of [vault.baseToken, vault.quoteToken, vault.address]) {
+        if (!store.hasToken(token)) newTokens.add(token);
+      }
+    }
+    const tokens = await Promise.all(
+      Array.from(newTokens, (token): Promise<TokenInfo> => fetchTokenInfo(publicClient, token))
+    );
+
+    return { ...batch, cursor: { blockNumber: toBlock, blockHash: end.hash }, blocks, tokens };
+  }
+
+  /**
+   * Rewind `reorgDepth` blocks below `blockNumber`; the next tick re-indexes from there
+   */
+  function rewind(blockNumber: bigint) {
+    const floor = config.startBlock - 1n;
+    const target = blockNumber - config.reorgDepth > floor ? blockNumber - config.reorgDepth : floor;
+    store.rollback(target);
+    logger.warn('Rolled back after reorg', { from: blockNumber, to: target });
+  }
+
+  /**
+   * Index the next batch of blocks. Returns true while there is more history to catch up on
+   */
+  async function tick(): Promise<boolean> {
+    const cursor = store.getCursor() ?? { blockNumber: config.startBlock - 1n, blockHash: null };
+
+    // The last indexed block must still be canonical before building on it
+    if (cursor.blockHash) {
+      const block = await publicClient.getBlock({ blockNumber: cursor.blockNumber });
+      if (block.hash !== cursor.blockHash) {
+        rewind(cursor.blockNumber);
+        return true;
+      }
+    }
+
+    headBlock = await publicClient.getBlockNumber();
+    if (headBlock <= cursor.blockNumber) return false;
+
+    const fromBlock = cursor.blockNumber + 1n;
+    const toBlock =
+      fromBlock + config.batchSize - 1n < headBlock ? fromBlock + config.batchSize - 1n : headBlock;
+
+    try {
+      const batch = await readBatch(fromBlock, toBlock);
+      store.applyBatch(batch);
+
+      const count = batch.vaults.length + batch.fills.length + batch.flows.length + batch.metaTxs.length;
+      if (count > 0 || toBlock === headBlock) {
+        logger.info('Indexed blocks', { fromBlock, toBlock, vaults: batch.vaults.length, fills: batch.fills.length });
+      }
+    } catch (error) {
+      if (error instanceof ReorgDetectedError) {
+        rewind(cursor.blockNumber);
+        return true;
+      }
+      throw error;
+    }
+
+    return toBlock < headBlock;
+  }
+
+  async function start() {
+    running = true;
+    logger.info('Indexer started', { factory: config.factory, relayer: config.relayer, cursor: store.getCursor() });
+
+    while (running) {
+      let catchingUp = false;
+      try {
+        catchingUp = await tick();
+      } catch (error) {
+        logger.error('Indexing pass failed', {
+          error: error instanceof Error ? error.message.split('\n')[0] : String(error),
+        });
+      }
+      // Backfill without pausing; once at the head, poll
+      if (!catchingUp) await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+    }
+  }
+
+  function stop() {
+    running = false;
+  }
+
+  return { tick, start, stop, getHeadBlock: () => headBlock };
+}
+
+export type Indexer = ReturnType<typeof createIndexer>;
@@ -0,0 +1,18 @@
+type Level = 'info' | 'warn' | 'error';
+
+function log(level: Level, message: string, context?: Record<string, unknown>) {
+  const line = `${new Date().toISOString()} [${level}] ${message}`;
+  const extra = context
+    ? ' ' + JSON.stringify(context, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+    : '';
+
+  if (level === 'error') console.error(line + extra);
+  else if (level === 'warn') console.warn(line + extra);
+  else console.log(line + extra);
+}
+
+export const logger = {
+  info: (message: string, context?: Record<string, unknown>) => log('info', message, context),
+  warn: (message: string, context?: Record<string, unknown>) => log('warn', message, context),
+  error: (message: string, context?: Record<string, unknown>) => log('error', message, context),
+};
@@ -0,0 +1,122 @@
+import { createServer, type ServerResponse } from 'node:http';
+import { getAddress, isAddress, type Address } from 'viem';
+
+import type { IndexerConfig } from './config';
+import type { IndexerStore } from './db';
+import type { Indexer } from './indexer';
+import { logger } from './logger';
+
+class BadRequestError extends Error {}
+
+function addressParam(value: string | null | undefined, name: string): Address | undefined {
+  if (!value) return undefined;
+  if (!isAddress(value)) throw new BadRequestError(`Invalid ${name} address`);
+  return getAddress(value);
+}
+
+function intParam(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const parsed = parseInt(value);
+  if (Number.isNaN(parsed)) throw new BadRequestError('Invalid number');
+  return parsed;
+}
+
+/**
+ * Read-only HTTP API over the indexed data:
+ *   GET /health                  indexed and head block
+ *   GET /stats                   protocol-wide totals
+ *   GET /vaults                  vaults with totals; filter by creator, baseToken, quoteToken, sourceVault
+ *   GET /vaults/:address         one vault
+ *   GET /vaults/:address/fills   Fill events, newest first
+ *   GET /vaults/:address/flows   ERC-4626 deposits and withdrawals plus in-kind redemptions, newest first
+ *   GET /meta-txs                relayed cycles; filter by user, vault
+ *   GET /tokens                  metadata for every indexed token
+ * List endpoints accept limit and offset.
+ */
+export function createIndexerServer(config: IndexerConfig, store: IndexerStore, indexer: Indexer) {
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': config.corsOrigin,
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  return createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const [resource, id, child] = url.pathname.split('/').filter(Boolean);
+    const query = url.searchParams;
+
+    try {
+      const pageOptions = { limit: intParam(query.get('limit')), offset: intParam(query.get('offset')) };
+
+      if (req.method === 'OPTIONS') {
+        send(res, 204, undefined);
+      } else if (req.method !== 'GET') {
+        send(res, 405, { error: 'Method not allowed' });
+      } else if (resource === 'health') {
+        const cursor = store.getCursor();
+        const head = indexer.getHeadBlock();
+        send(res, 200, {
+          ok: true,
+          chainId: config.chainId,
+          indexedBlock: cursor ? Number(cursor.blockNumber) : null,
+          headBlock: head === null ? null : Number(head),
+        });
+      } else if (resource === 'stats') {
+        send(res, 200, store.getStats(Math.floor(Date.now() / 1000)));
+      } else if (resource === 'vaults' && !id) {
+        send(
+          res,
+          200,
+          store.listVaults({
+            creator: addressParam(query.get('creator'), 'creator'),
+            baseToken: addressParam(query.get('baseToken'), 'baseToken'),
+            quoteToken: addressParam(query.get('quoteToken'), 'quoteToken'),
+            sourceVault: addressParam(query.get('sourceVault'), 'sourceVault'),
+            ...pageOptions,
+          })
+        );
+      } else if (resource === 'vaults' && id) {
+        const vault = addressParam(id, 'vault') as Address;
+        if (!child) {
+          const indexed = store.getVault(vault);
+          if (indexed) send(res, 200, indexed);
+          else send(res, 404, { error: 'Vault not found' });
+        } else if (child === 'fills') {
+          send(res, 200, store.listFills(vault, pageOptions));
+        } else if (child === 'flows') {
+          send(res, 200, store.listFlows(vault, pageOptions));
+        } else {
+          send(res, 404, { error: 'Not found' });
+        }
+      } else if (resource === 'meta-txs') {
+        send(
+          res,
+          200,
+          store.listMetaTxs({
+            user: addressParam(query.get('user'), 'user'),
+            vault: addressParam(query.get('vault'), 'vault'),
+            ...pageOptions,
+          })
+        );
+      } else if (resource === 'tokens') {
+        send(res, 200, store.listTokens());
+      } else {
+        send(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        send(res, 400, { error: error.message });
+      } else {
+        logger.error('Request failed', {
+          path: url.pathname,
+          error: error instanceof Error ? error.message.split('\n')[0] : String(error),
+        });
+        send(res, 500, { error: 'Internal error' });
+      }
+    }
+  });
+}
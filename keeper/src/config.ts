@@ -0,0 +1,51 @@
+import { parseGwei, type Address, type Hex } from 'viem';
+
+export interface KeeperConfig {
+  rpcUrl: string;
+  chainId: number;
+  privateKey: Hex;
+  factory: Address;
+  pollIntervalMs: number;
+  vaultRefreshMs: number;
+  gasLimit?: bigint;
+  gasEstimateMultiplierBps: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  maxRetries: number;
+  retryDelayMs: number;
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required environment variable ${name}`);
+  return value;
+}
+
+function optional(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+}
+
+/**
+ * Load keeper configuration from environment variables (see .env.example)
+ */
+export function loadConfig(): KeeperConfig {
+  const gasLimit = optional('GAS_LIMIT');
+  const maxFee = optional('MAX_FEE_PER_GAS_GWEI');
+  const maxPriorityFee = optional('MAX_PRIORITY_FEE_PER_GAS_GWEI');
+
+  return {
+    rpcUrl: required('RPC_URL'),
+    chainId: parseInt(optional('CHAIN_ID') || '50311'),
+    privateKey: required('KEEPER_PRIVATE_KEY') as Hex,
+    factory: required('VAULT_FACTORY_ADDRESS') as Address,
+    pollIntervalMs: parseInt(optional('POLL_INTERVAL_MS') || '15000'),
+    vaultRefreshMs: parseInt(optional('VAULT_REFRESH_MS') || '300000'),
+    gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+    gasEstimateMultiplierBps: BigInt(optional('GAS_ESTIMATE_MULTIPLIER_BPS') || '12000'),
+    maxFeePerGas: maxFee ? parseGwei(maxFee) : undefined,
+    maxPriorityFeePerGas: maxPriorityFee ? parseGwei(maxPriorityFee) : undefined,
+    maxRetries: parseInt(optional('MAX_RETRIES') || '3'),
+    retryDelayMs: parseInt(optional('RETRY_DELAY_MS') || '5000'),
+  };
+}
@@ -0,0 +1,23 @@
+import { loadConfig } from './config';
+import { createKeeper } from './keeper';
+import { logger } from './logger';
+
+async function main() {
+  const keeper = createKeeper(loadConfig());
+
+  // --once runs a single pass, handy for scripted tests against a local node
+  if (process.argv.includes('--once')) {
+    await keeper.tick();
+    return;
+  }
+
+  process.on('SIGINT', keeper.stop);
+  process.on('SIGTERM', keeper.stop);
+
+  await keeper.start();
+}
+
+main().catch((error) => {
+  logger.error('Keeper crashed', { error: error instanceof Error ? error.message : String(error) });
+  process.exit(1);
+});
@@ -0,0 +1,234 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  TransactionNotFoundError,
+  zeroAddress,
+  type Address,
+  type Hash,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+import { ERC20_ABI, MICRO_DCA_VAULT_ABI } from '../../app/src/lib/contracts';
+import { cycleQuoteAmount, quoteCycleOut } from '../../app/src/lib/quote';
+import { fetchAllVaults } from '../../app/src/lib/vaults';
+import type { KeeperConfig } from './config';
+import { logger } from './logger';
+
+export interface CyclePlan {
+  vault: Address;
+  quoteAmount: bigint;
+  minOut: bigint;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create a keeper that polls every factory vault and executes cycles when they are due
+ */
+export function createKeeper(config: KeeperConfig) {
+  const chain = defineChain({
+    id: config.chainId,
+    name: `chain-${config.chainId}`,
+    network: `chain-${config.chainId}`,
+    nativeCurrency: { decimals: 18, name: 'Ether', symbol: 'ETH' },
+    rpcUrls: {
+      default: { http: [config.rpcUrl] },
+      public: { http: [config.rpcUrl] },
+    },
+  });
+
+  const account = privateKeyToAccount(config.privateKey);
+  const publicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+  const walletClient = createWalletClient({ account, chain, transport: http(config.rpcUrl) });
+
+  let vaults: Address[] = [];
+  let lastRefresh = 0;
+  let nonce: number | undefined;
+  let running = false;
+
+  async function refreshVaults() {
+    vaults = await fetchAllVaults(publicClient, config.factory);
+    lastRefresh = Date.now();
+    logger.info('Refreshed vault list', { count: vaults.length });
+  }
+
+  /**
+   * Decide whether a vault should be executed now, and with which amounts
+   */
+  async function planCycle(vault: Address, now: bigint): Promise<CyclePlan | null> {
+    const contract = { address: vault, abi: MICRO_DCA_VAULT_ABI } as const;
+
+    const [vaultConfig, nextExecTime, baseToken, quoteToken, router] = await Promise.all([
+      publicClient.readContract({ ...contract, functionName: 'getConfig' }) as Promise<
+        readonly [bigint, bigint, bigint, bigint, Address, boolean]
+      >,
+      publicClient.readContract({ ...contract, functionName: 'nextExecTime' }),
+      publicClient.readContract({ ...contract, functionName: 'baseToken' }),
+      publicClient.readContract({ ...contract, functionName: 'quoteToken' }),
+      publicClient.readContract({ ...contract, functionName: 'router' }),
+    ]);
+
+    const [, maxSlippageBps, perCycleQuoteCap, , keeper, paused] = vaultConfig;
+
+    if (paused) return null;
+    if (keeper !== zeroAddress && keeper.toLowerCase() !== account.address.toLowerCase()) return null;
+    if (now < nextExecTime) return null;
+
+    const quoteBalance = await publicClient.readContract({
+      address: quoteToken,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [vault],
+    });
+    const quoteAmount = cycleQuoteAmount(perCycleQuoteCap, quoteBalance);
+    if (quoteAmount === 0n) return null;
+
+    // Price the swap on the vault's own router so minOut tracks the live pool
+    const { minOut } = await quoteCycleOut(
+      publicClient,
+      { baseToken, quoteToken, maxSlippageBps, router },
+      quoteAmount
+    );
+
+    return { vault, quoteAmount, minOut };
+  }
+
+  async function nextNonce(): Promise<number> {
+    if (nonce === undefined) {
+      nonce = await publicClient.getTransactionCount({
+        address: account.address,
+        blockTag: 'pending',
+      });
+    }
+    return nonce++;
+  }
+
+  /**
+   * Whether the node has forgotten a submitted transaction, meaning it will never be mined
+   */
+  async function isDropped(hash: Hash): Promise<boolean> {
+    try {
+      await publicClient.getTransaction({ hash });
+      return false;
+    } catch (error) {
+      // Any other error leaves the transaction's fate unknown, so keep treating it as live
+      return error instanceof TransactionNotFoundError;
+    }
+  }
+
+  /**
+   * Simulate, price and submit an executeCycle transaction, retrying on failure.
+   * Once a transaction is submitted, retries only wait for its receipt again;
+   * a replacement is signed only after the node reports the original as dropped.
+   */
+  async function execute(plan: CyclePlan): Promise<Hash | null> {
+    let hash: Hash | undefined;
+
+    for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
+      try {
+        if (!hash) {
+          const call = {
+            account,
+            address: plan.vault,
+            abi: MICRO_DCA_VAULT_ABI,
+            functionName: 'executeCycle',
+            args: [plan.quoteAmount, plan.minOut, account.address],
+          } as const;
+
+          // Surface reverts before spending gas
+          await publicClient.simulateContract(call);
+
+          const gas = config.gasLimit ??
+            ((await publicClient.estimateContractGas(call)) * config.gasEstimateMultiplierBps) / 10_000n;
+
+          hash = await walletClient.writeContract({
+            ...call,
+            gas,
+            nonce: await nextNonce(),
+            maxFeePerGas: config.maxFeePerGas,
+            maxPriorityFeePerGas: config.maxPriorityFeePerGas,
+          });
+        }
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          // Mined and reverted: the next attempt re-simulates from scratch
+          const reverted = hash;
+          hash = undefined;
+          throw new Error(`Transaction ${reverted} reverted`);
+        }
+
+        logger.info('Executed cycle', { ...plan, hash, gasUsed: receipt.gasUsed });
+        return hash;
+      } catch (error) {
+        const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+
+        if (hash && !(await isDropped(hash))) {
+          // The transaction may still be mined; signing another would risk a duplicate cycle
+          logger.warn('Receipt wait failed, transaction still pending', {
+            vault: plan.vault,
+            attempt,
+            hash,
+            error: message,
+          });
+        } else {
+          if (hash) logger.warn('Transaction dropped, resubmitting', { vault: plan.vault, hash });
+          hash = undefined;
+          // The failure may have left the local nonce out of sync with the node
+          nonce = undefined;
+          logger.warn('Cycle attempt failed', { vault: plan.vault, attempt, error: message });
+        }
+
+        if (attempt < config.maxRetries) await sleep(config.retryDelayMs);
+      }
+    }
+
+    logger.error('Giving up on cycle', { vault: plan.vault, pendingHash: hash });
+    return null;
+  }
+
+  /**
+   * Run a single pass over every vault
+   */
+  async function tick() {
+    if (vaults.length === 0 || Date.now() - lastRefresh > config.vaultRefreshMs) {
+      await refreshVaults();
+    }
+
+    // Compare against chain time so local nodes with warped clocks behave correctly
+    const { timestamp: now } = await publicClient.getBlock();
+
+    for (const vault of vaults) {
+      try {
+        const plan = await planCycle(vault, now);
+        if (plan) await execute(plan);
+      } catch (error) {
+        const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        logger.error('Failed to check vault', { vault, error: message });
+      }
+    }
+  }
+
+  async function start() {
+    running = true;
+    logger.info('Keeper started', { keeper: account.address, factory: config.factory });
+
+    while (running) {
+      try {
+        await tick();
+      } catch (error) {
+        const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+        logger.error('Keeper pass failed', { error: message });
+      }
+      await sleep(config.pollIntervalMs);
+    }
+  }
+
+  function stop() {
+    running = false;
+  }
+
+  return { start, stop, tick, planCycle, execute, refreshVaults };
+}
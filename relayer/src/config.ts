@@ -0,0 +1,37 @@
+import type { Address, Hex } from 'viem';
+
+export interface RelayerConfig {
+  rpcUrl: string;
+  chainId: number;
+  privateKey: Hex;
+  relayer: Address;
+  port: number;
+  corsOrigin: string;
+  pollIntervalMs: number;
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required environment variable ${name}`);
+  return value;
+}
+
+function optional(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value;
+}
+
+/**
+ * Load relayer service configuration from environment variables (see .env.example)
+ */
+export function loadConfig(): RelayerConfig {
+  return {
+    rpcUrl: required('RPC_URL'),
+    chainId: parseInt(optional('CHAIN_ID') || '50311'),
+    privateKey: required('RELAYER_PRIVATE_KEY') as Hex,
+    relayer: required('RELAYER_ADDRESS') as Address,
+    port: parseInt(optional('PORT') || '8787'),
+    corsOrigin: optional('CORS_ORIGIN') || '*',
+    pollIntervalMs: parseInt(optional('POLL_INTERVAL_MS') || '5000'),
+  };
+}
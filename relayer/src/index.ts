@@ -0,0 +1,28 @@
+import { loadConfig } from './config';
+import { logger } from './logger';
+import { createRelayerServer } from './server';
+import { createRelayerService } from './service';
+
+async function main() {
+  const config = loadConfig();
+  const service = createRelayerService(config);
+  const server = createRelayerServer(config, service);
+
+  server.listen(config.port, () => {
+    logger.info('Relayer API listening', { port: config.port });
+  });
+
+  const shutdown = () => {
+    service.stop();
+    server.close();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await service.start();
+}
+
+main().catch((error) => {
+  logger.error('Relayer crashed', { error: error instanceof Error ? error.message : String(error) });
+  process.exit(1);
+});
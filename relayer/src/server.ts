@@ -0,0 +1,88 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+
+import { serializeIntent, type RelayCancellation, type RelaySubmission } from '../../app/src/lib/relay';
+import type { RelayerConfig } from './config';
+import { logger } from './logger';
+import { RelayRequestError, type RelayerService } from './service';
+
+// Signed payloads are tiny; anything larger is not a valid submission
+const MAX_BODY_BYTES = 16 * 1024;
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new RelayRequestError('Request body too large', 413));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new RelayRequestError('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * HTTP API for the relayer queue:
+ *   POST /intents            submit { message, signature }
+ *   GET  /intents?signer=0x  list intents, optionally for one signer
+ *   GET  /intents/:id        status of a single intent
+ *   DELETE /intents/:id      cancel a queued intent; body { signature } over its cancel message
+ *   GET  /health             liveness check
+ */
+export function createRelayerServer(config: RelayerConfig, service: RelayerService) {
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': config.corsOrigin,
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const [resource, id] = url.pathname.split('/').filter(Boolean);
+
+    try {
+      if (req.method === 'OPTIONS') {
+        send(res, 204, undefined);
+      } else if (req.method === 'GET' && resource === 'health') {
+        send(res, 200, { ok: true });
+      } else if (resource === 'intents' && !id && req.method === 'POST') {
+        const intent = await service.submit((await readJson(req)) as RelaySubmission);
+        send(res, 201, serializeIntent(intent));
+      } else if (resource === 'intents' && !id && req.method === 'GET') {
+        const signer = url.searchParams.get('signer') || undefined;
+        send(res, 200, service.list(signer).map(serializeIntent));
+      } else if (resource === 'intents' && id && req.method === 'GET') {
+        const intent = service.get(id);
+        if (intent) send(res, 200, serializeIntent(intent));
+        else send(res, 404, { error: 'Intent not found' });
+      } else if (resource === 'intents' && id && req.method === 'DELETE') {
+        const intent = await service.cancel(id, (await readJson(req)) as RelayCancellation);
+        send(res, 200, serializeIntent(intent));
+      } else {
+        send(res, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      if (error instanceof RelayRequestError) {
+        send(res, error.status, { error: error.message });
+      } else {
+        logger.error('Request failed', {
+          path: url.pathname,
+          error: error instanceof Error ? error.message.split('\n')[0] : String(error),
+        });
+        send(res, 500, { error: 'Internal error' });
+      }
+    }
+  });
+}
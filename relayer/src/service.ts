@@ -0,0 +1,347 @@
+import { randomUUID } from 'node:crypto';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  isAddress,
+  isHex,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  verifyMessage,
+  type Address,
+  type Hex,
+  type TransactionReceipt,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+import {
+  MICRO_DCA_VAULT_ABI,
+  RELAYER_ABI,
+  type ExecuteCycleMessage,
+  type RelayIntent,
+  type RelayIntentStatus,
+} from '../../app/src/lib/contracts';
+import { decodeContractError } from '../../app/src/lib/errors';
+import {
+  deserializeMessage,
+  getCancelMessage,
+  type RelayCancellation,
+  type RelaySubmission,
+} from '../../app/src/lib/relay';
+import type { RelayerConfig } from './config';
+import { logger } from './logger';
+
+/**
+ * Thrown for submissions that should be answered with a 4xx status
+ */
+export class RelayRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'RelayRequestError';
+  }
+}
+
+/**
+ * A queued intent together with the signature the relayer submits on the signer's behalf
+ */
+interface SignedIntent extends RelayIntent {
+  signature: Hex;
+}
+
+const FINAL_STATUSES: RelayIntentStatus[] = ['executed', 'failed', 'expired', 'cancelled'];
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'shortMessage' in error) {
+    return String((error as { shortMessage: unknown }).shortMessage);
+  }
+  return error instanceof Error ? error.message.split('\n')[0] ?? error.message : String(error);
+}
+
+/**
+ * Create the intent queue: verifies incoming signatures, holds them until the
+ * target vault is due, then submits them through Relayer.executeMetaCycle.
+ * Intents are held in memory only, so restarting the process drops every queued intent
+ * and signers have to submit them again
+ */
+export function createRelayerService(config: RelayerConfig) {
+  const chain = defineChain({
+    id: config.chainId,
+    name: `chain-${config.chainId}`,
+    network: `chain-${config.chainId}`,
+    nativeCurrency: { decimals: 18, name: 'Ether', symbol: 'ETH' },
+    rpcUrls: {
+      default: { http: [config.rpcUrl] },
+      public: { http: [config.rpcUrl] },
+    },
+  });
+
+  const account = privateKeyToAccount(config.privateKey);
+  const publicClient = createPublicClient({ chain, transport: http(config.rpcUrl) });
+  const walletClient = createWalletClient({ account, chain, transport: http(config.rpcUrl) });
+
+  const intents = new Map<string, SignedIntent>();
+  let running = false;
+
+  function update(intent: SignedIntent, changes: Partial<RelayIntent>) {
+    Object.assign(intent, changes, { updatedAt: Date.now() });
+  }
+
+  async function verify(message: ExecuteCycleMessage, signature: Hex) {
+    if (!isHex(signature)) throw new RelayRequestError('Invalid signature');
+
+    try {
+      const [signer, isValid] = (await publicClient.readContract({
+        address: config.relayer,
+        abi: RELAYER_ABI,
+        functionName: 'verifySignature',
+        args: [message, signature],
+      })) as readonly [Address, boolean];
+      return { signer, isValid };
+    } catch (error) {
+      // ECDSA recovery reverts on malformed or wrong-length signatures; that is bad input, not a server fault
+      if (error instanceof BaseError && error.walk((cause) => cause instanceof ContractFunctionRevertedError)) {
+        throw new RelayRequestError('Invalid signature');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a signed ExecuteCycle payload and add it to the queue
+   */
+  async function submit(payload: RelaySubmission): Promise<RelayIntent> {
+    if (!payload?.message || typeof payload.signature !== 'string') {
+      throw new RelayRequestError('Expected { message, signature }');
+    }
+
+    let message: ExecuteCycleMessage;
+    try {
+      message = deserializeMessage(payload.message);
+    } catch {
+      throw new RelayRequestError('Malformed ExecuteCycle message');
+    }
+    if (!isAddress(message.vault) || !isAddress(message.beneficiary)) {
+      throw new RelayRequestError('Invalid vault or beneficiary address');
+    }
+
+    const { signer, isValid } = await verify(message, payload.signature);
+    if (!isValid) {
+      throw new RelayRequestError('Signature is invalid, expired or uses a stale nonce');
+    }
+
+    const duplicate = Array.from(intents.values()).find(
+      (intent) =>
+        intent.signer.toLowerCase() === signer.toLowerCase() &&
+        intent.message.nonce === message.nonce &&
+        !FINAL_STATUSES.includes(intent.status)
+    );
+    if (duplicate) {
+      throw new RelayRequestError(`Nonce already queued as ${duplicate.id}`, 409);
+    }
+
+    const now = Date.now();
+    const intent: SignedIntent = {
+      id: randomUUID(),
+      signer,
+      message,
+      signature: payload.signature,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+    };
+    intents.set(intent.id, intent);
+
+    logger.info('Queued intent', { id: intent.id, signer, vault: message.vault });
+    return intent;
+  }
+
+  /**
+   * Drop a queued intent at its signer's request. The signature itself stays valid
+   * on-chain until its deadline or until the signer's nonce moves on
+   */
+  async function cancel(id: string, payload: RelayCancellation): Promise<RelayIntent> {
+    const intent = intents.get(id);
+    if (!intent) throw new RelayRequestError('Intent not found', 404);
+    if (typeof payload?.signature !== 'string') {
+      throw new RelayRequestError('Expected { signature }');
+    }
+
+    const isSigner = await verifyMessage({
+      address: intent.signer,
+      message: getCancelMessage(id),
+      signature: payload.signature,
+    }).catch(() => false);
+    if (!isSigner) {
+      throw new RelayRequestError('Cancellation must be signed by the intent signer', 403);
+    }
+    if (intent.status !== 'queued') {
+      throw new RelayRequestError(`Intent is already ${intent.status}`, 409);
+    }
+
+    update(intent, { status: 'cancelled' });
+    logger.info('Cancelled intent', { id, signer: intent.signer });
+    return intent;
+  }
+
+  /**
+   * Try to move a queued intent forward; leaves it queued if its vault is not due yet
+   */
+  async function advance(intent: SignedIntent, now: bigint) {
+    const { message } = intent;
+
+    if (now > message.deadline) {
+      update(intent, { status: 'expired' });
+      return;
+    }
+
+    const nextExecTime = await publicClient.readContract({
+      address: message.vault,
+      abi: MICRO_DCA_VAULT_ABI,
+      functionName: 'nextExecTime',
+    });
+    if (now < nextExecTime) return;
+
+    // The signer's nonce may have moved on since the intent was accepted
+    const { isValid } = await verify(message, intent.signature);
+    if (!isValid) {
+      update(intent, { status: 'failed', error: 'Signature no longer valid' });
+      return;
+    }
+
+    const call = {
+      account,
+      address: config.relayer,
+      abi: RELAYER_ABI,
+      functionName: 'executeMetaCycle',
+      args: [message, intent.signature],
+    } as const;
+
+    try {
+      await publicClient.simulateContract(call);
+    } catch (error) {
+      // Conditions such as a paused vault can clear up, so keep it queued until the deadline
+      update(intent, { error: decodeContractError(error).message });
+      return;
+    }
+
+    // A cancel can land while the reads above are in flight; it must win over submission
+    if (intent.status !== 'queued') return;
+
+    const hash = await walletClient.writeContract(call);
+    update(intent, { status: 'submitted', transactionHash: hash, error: undefined });
+    logger.info('Submitted intent', { id: intent.id, hash });
+
+    try {
+      settle(intent, await publicClient.waitForTransactionReceipt({ hash }));
+    } catch (error) {
+      // The transaction may still land, so leave it submitted and look again next tick
+      update(intent, { error: errorMessage(error) });
+      logger.warn('Receipt wait failed, will re-check', { id: intent.id, hash, error: errorMessage(error) });
+    }
+  }
+
+  function settle(intent: SignedIntent, receipt: TransactionReceipt) {
+    const hash = intent.transactionHash;
+    if (receipt.status === 'success') {
+      update(intent, { status: 'executed', error: undefined });
+      logger.info('Executed intent', { id: intent.id, hash });
+    } else {
+      update(intent, { status: 'failed', error: 'Transaction reverted' });
+      logger.warn('Intent reverted', { id: intent.id, hash });
+    }
+  }
+
+  /**
+   * Look up the receipt of a submitted intent whose first receipt wait failed.
+   * A transaction the node no longer knows about was dropped, so the intent is queued
+   * again; its signature stays valid because the nonce was never used
+   */
+  async function recheck(intent: SignedIntent) {
+    const hash = intent.transactionHash;
+    if (!hash) return;
+
+    try {
+      settle(intent, await publicClient.getTransactionReceipt({ hash }));
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+
+      const dropped = await publicClient.getTransaction({ hash }).then(
+        () => false,
+        (lookupError) => lookupError instanceof TransactionNotFoundError
+      );
+      if (dropped) {
+        update(intent, { status: 'queued', transactionHash: undefined, error: 'Transaction dropped' });
+        logger.warn('Submitted transaction dropped, re-queued intent', { id: intent.id, hash });
+      }
+    }
+  }
+
+  async function tick() {
+    const pending = Array.from(intents.values()).filter(
+      (intent) => intent.status === 'queued' || (intent.status === 'submitted' && intent.transactionHash)
+    );
+    if (pending.length === 0) return;
+
+    const { timestamp: now } = await publicClient.getBlock();
+
+    // Submit one at a time so the relayer account's nonce stays in order
+    for (const intent of pending) {
+      if (intent.status === 'submitted') {
+        try {
+          await recheck(intent);
+        } catch (error) {
+          // Keep it submitted: a lookup failure says nothing about the transaction itself
+          logger.warn('Failed to re-check intent', { id: intent.id, error: errorMessage(error) });
+        }
+        continue;
+      }
+
+      try {
+        await advance(intent, now);
+      } catch (error) {
+        // RPC hiccups say nothing about the intent itself; advance marks definite failures,
+        // so keep it queued and retry on the next tick until its deadline
+        update(intent, { error: errorMessage(error) });
+        logger.warn('Failed to process intent, will retry', { id: intent.id, error: errorMessage(error) });
+      }
+    }
+  }
+
+  async function start() {
+    running = true;
+    logger.info('Relayer queue started', { relayer: config.relayer, sender: account.address });
+
+    while (running) {
+      try {
+        await tick();
+      } catch (error) {
+        logger.error('Queue pass failed', { error: errorMessage(error) });
+      }
+      await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+    }
+  }
+
+  function stop() {
+    running = false;
+  }
+
+  function get(id: string): RelayIntent | undefined {
+    return intents.get(id);
+  }
+
+  function list(signer?: string): RelayIntent[] {
+    return Array.from(intents.values())
+      .filter((intent) => !signer || intent.signer.toLowerCase() === signer.toLowerCase())
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  return { submit, cancel, get, list, tick, start, stop };
+}
+
+export type RelayerService = ReturnType<typeof createRelayerService>;